@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Discovery" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "requestLogId" TEXT,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "details" TEXT,
+    "pageUrl" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Discovery_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Discovery_requestLogId_fkey" FOREIGN KEY ("requestLogId") REFERENCES "RequestLog" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Discovery_targetId_type_idx" ON "Discovery"("targetId", "type");
+
+-- CreateIndex
+CREATE INDEX "Discovery_requestLogId_idx" ON "Discovery"("requestLogId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Discovery_targetId_type_value_key" ON "Discovery"("targetId", "type", "value");
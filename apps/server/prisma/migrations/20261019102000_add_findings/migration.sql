@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "Finding" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "detector" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "severity" TEXT NOT NULL,
+    "confidence" INTEGER NOT NULL DEFAULT 100,
+    "cwe" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'new',
+    "notes" TEXT,
+    "url" TEXT,
+    "evidence" TEXT,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "firstSeen" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeen" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Finding_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_FindingToRequestLog" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_FindingToRequestLog_A_fkey" FOREIGN KEY ("A") REFERENCES "Finding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_FindingToRequestLog_B_fkey" FOREIGN KEY ("B") REFERENCES "RequestLog" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Finding_targetId_status_idx" ON "Finding"("targetId", "status");
+
+-- CreateIndex
+CREATE INDEX "Finding_targetId_severity_idx" ON "Finding"("targetId", "severity");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Finding_targetId_fingerprint_key" ON "Finding"("targetId", "fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_FindingToRequestLog_AB_unique" ON "_FindingToRequestLog"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_FindingToRequestLog_B_index" ON "_FindingToRequestLog"("B");
+
+-- Header and cookie issues are findings from now on; the next crawl reports them again
+DELETE FROM "Discovery" WHERE "type" = 'issue';
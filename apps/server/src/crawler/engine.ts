@@ -1,9 +1,39 @@
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
+import { chromium, APIResponse, Browser, Page, BrowserContext, Request } from 'playwright';
 import { prisma, redis } from '../index';
 import { MCPBridge } from '../mcp/bridge';
 import { DNAMutator, BehavioralDNA } from '../dna/mutator';
 import { GreenLightCalculator } from '../green-light/calculator';
 import { WebSocketManager } from '../websocket/manager';
+import { RobotsPolicy, discoverSite } from '@0x2e8/phantom-ai-crawler/crawler/robots';
+import { ScopeEngine } from '@0x2e8/phantom-ai-crawler/crawler/scope';
+import { CookieJar } from '@0x2e8/phantom-ai-crawler/crawler/cookies';
+import {
+  AuthError,
+  AuthStrategyConfig,
+  LoginRequest,
+  LoginStrategyConfig,
+  authHeaders,
+  csrfHeaders,
+  isLoginStrategy,
+  loginPageCandidates,
+  parseAuthStrategy,
+  prepareFormLogin,
+  prepareJsonLogin,
+  redactRequest,
+  redactResponse,
+  seedCookies
+} from '@0x2e8/phantom-ai-crawler/crawler/auth';
+import { evaluateLogin, extractToken } from '@0x2e8/phantom-ai-crawler/crawler/login';
+import { hostRateLimiter, parseRetryAfter } from '@0x2e8/phantom-ai-crawler/crawler/ratelimit';
+import { ExtractedDiscovery, extractDiscoveries, saveDiscoveries } from '@0x2e8/phantom-ai-crawler/crawler/extract';
+import { analyzeScript } from '@0x2e8/phantom-ai-crawler/crawler/scripts';
+import { auditResponse, issueFindings } from '@0x2e8/phantom-ai-crawler/crawler/audit';
+import { ReportedFinding, reportFindings } from '@0x2e8/phantom-ai-crawler/crawler/findings';
+import { scanResponse, sensitiveFindings } from '@0x2e8/phantom-ai-crawler/crawler/sensitive';
+import { FingerprintInput, TechnologyProfile, detectTechnologies, parseTechnologies } from '@0x2e8/phantom-ai-crawler/crawler/fingerprint';
+
+// Redirects followed by requests made outside the page (robots.txt, sitemaps, login)
+const MAX_REDIRECTS = 5;
 
 export interface CrawlRequest {
   targetId: string;
@@ -21,7 +51,8 @@ export interface CrawlSession {
   currentUrl?: string;
   startTime: Date;
   requestsCount: number;
-  discoveries: any[];
+  blockedRequests: number;
+  discoveries: Array<ExtractedDiscovery & { pageUrl: string }>;
 }
 
 export class CrawlerEngine {
@@ -29,6 +60,12 @@ export class CrawlerEngine {
   private contexts: Map<string, BrowserContext> = new Map();
   private pages: Map<string, Page> = new Map();
   private sessions: Map<string, CrawlSession> = new Map();
+  private robots: Map<string, RobotsPolicy | null> = new Map();
+  private seeds: Map<string, string[]> = new Map();
+  private scopes: Map<string, ScopeEngine> = new Map();
+  private reportedFindings: Map<string, Set<string>> = new Map();
+  private credentials: Map<string, { origin: string; headers: Record<string, string> }> = new Map();
+  private strategies: Map<string, AuthStrategyConfig> = new Map();
   private mcp: MCPBridge;
   private dnaMutator: DNAMutator;
   private greenLightCalc: GreenLightCalculator;
@@ -70,6 +107,7 @@ export class CrawlerEngine {
       status: 'starting',
       startTime: new Date(),
       requestsCount: 0,
+      blockedRequests: 0,
       discoveries: []
     };
 
@@ -101,12 +139,35 @@ export class CrawlerEngine {
     const context = await this.createContext(currentDNA);
     this.contexts.set(sessionId, context);
 
+    // Every request the browser makes goes through the scope check
+    const scope = ScopeEngine.fromJson(target.url, target.scope);
+    this.scopes.set(sessionId, scope);
+    await this.enforceScope(context, session, scope);
+
+    // Share the HTTP crawler's session cookies with the browser
+    const jar = CookieJar.deserialize(target.sessionCookies, target.url);
+    const strategy = target.authStrategy ? parseAuthStrategy(target.authStrategy) : null;
+    if (strategy) {
+      this.strategies.set(sessionId, strategy);
+      seedCookies(strategy, jar, target.url);
+      this.credentials.set(sessionId, { origin: new URL(target.url).origin, headers: authHeaders(strategy) });
+    }
+    if (jar.size > 0) {
+      await context.addCookies(jar.toStorageState().cookies);
+    }
+    if (strategy) {
+      await this.applyAuthStrategy(context, sessionId, request.targetId, target.url, target.isAuthenticated, strategy);
+    }
+
     const page = await context.newPage();
     this.pages.set(sessionId, page);
 
     // Setup event listeners
     await this.setupPageListeners(page, sessionId, request.targetId);
 
+    // robots.txt and sitemaps
+    await this.runDiscovery(sessionId, request, context, target.ignoreRobots, currentDNA);
+
     // Start crawling
     session.status = 'running';
     this.wsManager.broadcast('crawl:started', { sessionId, targetId: request.targetId });
@@ -179,6 +240,7 @@ export class CrawlerEngine {
           request.targetId,
           greenLightState
         );
+        hostRateLimiter.setLimit(new URL(request.url).host, navRec.rateLimit);
 
         if (!navRec.canNavigate) {
           console.log(`🛑 Navigation blocked for ${request.targetId}. Analyzing...`);
@@ -234,8 +296,8 @@ export class CrawlerEngine {
           }
         }
 
-        // Delay between actions
-        const delay = this.randomDelay(dna.timing.delayRange);
+        // Delay between actions, never below the robots.txt Crawl-delay
+        const delay = Math.max(this.randomDelay(dna.timing.delayRange), this.crawlDelayMs(sessionId));
         await this.delay(delay);
       }
 
@@ -269,6 +331,62 @@ export class CrawlerEngine {
     });
   }
 
+  private async enforceScope(context: BrowserContext, session: CrawlSession, scope: ScopeEngine): Promise<void> {
+    // A slot is held until the response has been read, not just until the request is sent
+    const slots = new Map<Request, () => void>();
+    const settle = (request: Request) => {
+      slots.get(request)?.();
+      slots.delete(request);
+    };
+    context.on('requestfinished', settle);
+    context.on('requestfailed', settle);
+    context.on('close', () => {
+      for (const release of slots.values()) release();
+      slots.clear();
+    });
+
+    await context.route('**/*', async (route) => {
+      const url = route.request().url();
+      const decision = scope.check(url);
+      if (decision.inScope) {
+        // Credentials belong to the target's origin, not to every host the scope allows
+        const credentials = this.credentials.get(session.id);
+        const headers = credentials && new URL(url).origin === credentials.origin
+          ? { ...route.request().headers(), ...credentials.headers }
+          : undefined;
+
+        // Pages and API calls count against the host's rate limit; static assets do not
+        if (!['document', 'xhr', 'fetch'].includes(route.request().resourceType())) {
+          await route.continue({ headers });
+          return;
+        }
+        slots.set(route.request(), await hostRateLimiter.acquire(new URL(url).host));
+        try {
+          await route.continue({ headers });
+        } catch (error) {
+          settle(route.request());
+          throw error;
+        }
+        return;
+      }
+
+      scope.recordBlocked(url);
+      session.blockedRequests++;
+      await route.abort('blockedbyclient');
+
+      await prisma.target.update({
+        where: { id: session.targetId },
+        data: { outOfScopeBlocked: { increment: 1 } }
+      }).catch(() => {});
+
+      this.wsManager.broadcast('crawl:blocked', {
+        sessionId: session.id,
+        url,
+        reason: decision.reason
+      });
+    });
+  }
+
   private async setupPageListeners(page: Page, sessionId: string, targetId: string): Promise<void> {
     page.on('request', async (request) => {
       // Log request
@@ -277,7 +395,7 @@ export class CrawlerEngine {
           targetId,
           method: request.method(),
           url: request.url(),
-          headers: request.headers() as any
+          headers: JSON.stringify(redactRequest(request.headers(), undefined, this.strategies.get(sessionId)).headers)
         }
       });
     });
@@ -287,6 +405,11 @@ export class CrawlerEngine {
       const status = response.status();
       const wasBlocked = status === 403 || status === 429;
 
+      if (status === 429 || status === 503) {
+        const retryAfter = parseRetryAfter(response.headers()['retry-after']);
+        if (retryAfter !== undefined) hostRateLimiter.backoff(new URL(request.url()).host, retryAfter);
+      }
+
       // Update request log
       const lastRequest = await prisma.requestLog.findFirst({
         where: { targetId, url: request.url() },
@@ -298,13 +421,39 @@ export class CrawlerEngine {
           where: { id: lastRequest.id },
           data: {
             responseStatus: status,
-            responseHeaders: response.headers() as any,
+            responseHeaders: JSON.stringify(redactResponse(response.headers(), undefined, this.strategies.get(sessionId)).headers),
             wasBlocked,
             blockReason: wasBlocked ? this.detectBlockReason(response) : null
           }
         });
       }
 
+      await this.recordFindings(sessionId, targetId, issueFindings(auditResponse(response.url(), response.headers()), lastRequest?.id));
+      if (['document', 'script', 'xhr', 'fetch'].includes(request.resourceType()) && (status < 300 || status >= 400)) {
+        // Error pages are where stack traces and debug output show up
+        const body = await response.text().catch(() => undefined);
+        await this.recordFindings(sessionId, targetId, sensitiveFindings(scanResponse(response.url(), response.headers(), body), lastRequest?.id));
+      }
+
+      if (status < 300) {
+        // The body is gone once the page navigates away or closes
+        if (request.resourceType() === 'document' && (response.headers()['content-type'] || '').includes('html')) {
+          const html = await response.text().catch(() => undefined);
+          if (html !== undefined) {
+            const found = extractDiscoveries(html, response.url());
+            await this.recordDiscoveries(sessionId, targetId, response.url(), found, lastRequest?.id);
+            await this.recordTechnologies(sessionId, targetId, { headers: response.headers(), body: html });
+          }
+        } else if (request.resourceType() === 'script') {
+          // Bundles the browser loads anyway: read them for API routes
+          const script = await response.text().catch(() => undefined);
+          if (script !== undefined) {
+            const found = analyzeScript(script, response.url(), page.url());
+            await this.recordDiscoveries(sessionId, targetId, response.url(), found, lastRequest?.id);
+          }
+        }
+      }
+
       // Detect challenges
       if (await this.detectChallenge(response)) {
         await prisma.learningEvent.create({
@@ -321,6 +470,55 @@ export class CrawlerEngine {
     });
   }
 
+  private async recordDiscoveries(sessionId: string, targetId: string, pageUrl: string, found: ExtractedDiscovery[], requestLogId?: string): Promise<void> {
+    // Runs inside the response listener, where a rejection would go unhandled
+    try {
+      const fresh = await saveDiscoveries(prisma, targetId, found, pageUrl, requestLogId);
+      if (fresh.length === 0) return;
+
+      this.sessions.get(sessionId)?.discoveries.push(...fresh.map(d => ({ ...d, pageUrl })));
+      this.wsManager.broadcast('crawl:discoveries', { sessionId, targetId, pageUrl, count: fresh.length });
+    } catch (error) {
+      console.error('Failed to record discoveries:', error);
+    }
+  }
+
+  /** Reports findings once per session; the Finding table deduplicates across sessions. */
+  private async recordFindings(sessionId: string, targetId: string, findings: ReportedFinding[]): Promise<void> {
+    const reported = this.reportedFindings.get(sessionId) || new Set<string>();
+    this.reportedFindings.set(sessionId, reported);
+    const fresh = findings.filter(f => !reported.has(f.detector + ' ' + f.key));
+    if (fresh.length === 0) return;
+
+    for (const finding of fresh) reported.add(finding.detector + ' ' + finding.key);
+    try {
+      const raised = await reportFindings(prisma, targetId, fresh);
+      if (raised.length > 0) {
+        this.wsManager.broadcast('crawl:findings', { sessionId, targetId, findings: raised.map(f => ({ title: f.title, severity: f.severity })) });
+      }
+    } catch (error) {
+      // Not stored: let a later response report them again
+      for (const finding of fresh) reported.delete(finding.detector + ' ' + finding.key);
+      console.error('Failed to record findings:', error);
+    }
+  }
+
+  private async recordTechnologies(sessionId: string, targetId: string, input: FingerprintInput): Promise<void> {
+    try {
+      const target = await prisma.target.findUnique({ where: { id: targetId }, select: { technologies: true } });
+      const profile = new TechnologyProfile(parseTechnologies(target?.technologies));
+      const identified = profile.observe(detectTechnologies(input));
+      if (!profile.dirty()) return;
+
+      await prisma.target.update({ where: { id: targetId }, data: { technologies: JSON.stringify(profile.list()) } });
+      if (identified.length > 0) {
+        this.wsManager.broadcast('crawl:technologies', { sessionId, targetId, technologies: identified.map(t => ({ name: t.name, category: t.category, version: t.version, confidence: t.confidence })) });
+      }
+    } catch (error) {
+      console.error('Failed to record technologies:', error);
+    }
+  }
+
   private async applyHumanBehavior(page: Page, dna: BehavioralDNA): Promise<void> {
     // Random mouse movements
     if (dna.interaction.mouseMovement === 'bezier_curves') {
@@ -352,9 +550,234 @@ export class CrawlerEngine {
     }
   }
 
+  private async runDiscovery(
+    sessionId: string,
+    request: CrawlRequest,
+    context: BrowserContext,
+    ignoreRobots: boolean,
+    dna: BehavioralDNA
+  ): Promise<void> {
+    const discovery = await discoverSite(request.url, async (url) => {
+      const response = await this.scopedFetch(sessionId, context, url);
+      return { statusCode: response.status(), body: await response.body() };
+    }, dna.identity.userAgent);
+
+    this.robots.set(sessionId, ignoreRobots ? null : discovery.robots);
+
+    const origin = new URL(request.url).origin;
+    this.seeds.set(sessionId, discovery.urls.filter(url => new URL(url).origin === origin));
+
+    if (discovery.robots) {
+      const delay = discovery.robots.crawlDelay !== undefined ? `${discovery.robots.crawlDelay}s` : 'none';
+      await prisma.learningEvent.create({
+        data: {
+          targetId: request.targetId,
+          dnaVersionId: (await this.getCurrentDNAId(request.targetId))!,
+          eventType: 'robots',
+          title: ignoreRobots ? 'robots.txt override active' : 'robots.txt honored',
+          description: ignoreRobots
+            ? `Per-target override: ${discovery.robots.disallowCount} disallow rules and crawl-delay ${delay} ignored`
+            : `${discovery.robots.disallowCount} disallow rules and crawl-delay ${delay} enforced`,
+          trustImpact: 0
+        }
+      });
+    }
+
+    this.wsManager.broadcast('crawl:discovery', {
+      sessionId,
+      sitemaps: discovery.sitemaps.length,
+      seeds: this.seeds.get(sessionId)!.length
+    });
+  }
+
+  /**
+   * Static strategies were applied as headers/cookies above; form and JSON
+   * logins are submitted through the context's request API so the session
+   * cookies land in the browser's cookie store.
+   */
+  private async applyAuthStrategy(
+    context: BrowserContext,
+    sessionId: string,
+    targetId: string,
+    targetUrl: string,
+    isAuthenticated: boolean,
+    strategy: AuthStrategyConfig
+  ): Promise<void> {
+    if (!isLoginStrategy(strategy)) {
+      if (!isAuthenticated) {
+        await prisma.target.update({ where: { id: targetId }, data: { isAuthenticated: true } });
+      }
+      return;
+    }
+    if (isAuthenticated) return;
+
+    const success = await this.browserLogin(context, sessionId, targetUrl, strategy).catch(error => {
+      console.error('Browser login failed:', error);
+      return false;
+    });
+
+    await prisma.target.update({
+      where: { id: targetId },
+      data: { isAuthenticated: success }
+    });
+    if (success) {
+      await prisma.learningEvent.create({
+        data: {
+          targetId,
+          dnaVersionId: (await this.getCurrentDNAId(targetId))!,
+          eventType: 'milestone',
+          title: 'Authentication successful',
+          description: `Logged in as ${strategy.username} (${strategy.type})`,
+          trustImpact: 15
+        }
+      });
+    }
+  }
+
+  private async browserLogin(
+    context: BrowserContext,
+    sessionId: string,
+    targetUrl: string,
+    strategy: LoginStrategyConfig
+  ): Promise<boolean> {
+    let loginRequest: LoginRequest | null = null;
+    let pageBody = '';
+
+    try {
+      if (strategy.type === 'json') {
+        loginRequest = prepareJsonLogin(strategy, targetUrl);
+      } else {
+        for (const path of loginPageCandidates(strategy)) {
+          const response = await this.scopedFetch(sessionId, context, new URL(path, targetUrl).toString());
+          if (!response.ok()) continue;
+          pageBody = await response.text();
+          try {
+            loginRequest = prepareFormLogin(strategy, { url: response.url(), body: pageBody });
+            break;
+          } catch (error) {
+            if (strategy.endpoint) throw error;
+          }
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      console.error('Login preparation failed:', error.message);
+      return false;
+    }
+    if (!loginRequest) return false;
+
+    const before = await context.cookies();
+    const response = await this.scopedFetch(sessionId, context, loginRequest.url, {
+      method: loginRequest.method,
+      headers: { ...loginRequest.headers, ...csrfHeaders(pageBody, await context.cookies(loginRequest.url)) },
+      data: loginRequest.body
+    });
+
+    const body = await response.text();
+    const after = await context.cookies();
+    const token = extractToken(body);
+    const verdict = evaluateLogin({
+      statusCode: response.status(),
+      loginUrl: loginRequest.loginUrl,
+      finalUrl: response.url(),
+      body,
+      cookieNames: after.map(c => c.name),
+      newCookies: after.filter(c => !before.some(b => b.name === c.name && b.value === c.value)).length,
+      tokenIssued: Boolean(token)
+    }, strategy.successIndicators);
+
+    if (verdict.success && token) {
+      this.credentials.set(sessionId, { origin: new URL(targetUrl).origin, headers: { 'Authorization': `Bearer ${token}` } });
+    }
+    if (!verdict.success) {
+      console.warn('Login rejected:', verdict.reasons.join('; '));
+    }
+    return verdict.success;
+  }
+
+  /**
+   * Requests through the context's request API never reach context.route,
+   * so they get the same treatment here: every hop is scope-checked and
+   * waits for the host's rate limit, and redirects are followed one at a
+   * time as the HTTP crawler does.
+   */
+  private async scopedFetch(
+    sessionId: string,
+    context: BrowserContext,
+    url: string,
+    options: { method?: string; headers?: Record<string, string>; data?: string } = {}
+  ): Promise<APIResponse> {
+    const scope = this.scopes.get(sessionId);
+    let method = options.method || 'GET';
+    let headers = options.headers;
+    let data = options.data;
+
+    for (let hop = 0; ; hop++) {
+      const decision = scope?.check(url);
+      if (scope && decision && !decision.inScope) {
+        scope.recordBlocked(url);
+        const session = this.sessions.get(sessionId);
+        if (session) session.blockedRequests++;
+        throw new Error(`Out of scope: ${url} (${decision.reason})`);
+      }
+
+      const release = await hostRateLimiter.acquire(new URL(url).host);
+      let response: APIResponse;
+      try {
+        response = await context.request.fetch(url, { method, headers, data, maxRedirects: 0, failOnStatusCode: false });
+      } finally {
+        release();
+      }
+
+      const location = response.headers()['location'];
+      if (response.status() < 300 || response.status() >= 400 || !location) return response;
+      if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects at ${url}`);
+
+      // 303 always switches to GET; 301/302 do so for POST as browsers do; 307/308 keep method and body
+      if (response.status() === 303 || ((response.status() === 301 || response.status() === 302) && method === 'POST')) {
+        method = 'GET';
+        data = undefined;
+        headers = headers && Object.fromEntries(Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type'));
+      }
+      url = new URL(location, url).toString();
+    }
+  }
+
+  private isNavigable(sessionId: string, url: string): boolean {
+    if (!this.scopes.get(sessionId)?.isInScope(url)) return false;
+    const robots = this.robots.get(sessionId);
+    if (!robots) return true;
+    const parsed = new URL(url);
+    return robots.isAllowed(parsed.pathname + parsed.search);
+  }
+
+  private crawlDelayMs(sessionId: string): number {
+    const crawlDelay = this.robots.get(sessionId)?.crawlDelay;
+    return crawlDelay ? crawlDelay * 1000 : 0;
+  }
+
   private async explorePage(page: Page, sessionId: string, targetId: string, dna: BehavioralDNA): Promise<void> {
-    // Find clickable elements
-    const links = await page.$$('a[href]');
+    // Sitemap seeds take priority over random exploration
+    const seeds = this.seeds.get(sessionId) || [];
+    while (seeds.length > 0) {
+      const seed = seeds.shift()!;
+      if (!this.isNavigable(sessionId, seed)) continue;
+      await page.goto(seed, { waitUntil: 'networkidle' });
+      return;
+    }
+
+    // Find clickable elements, skipping out-of-scope and robots.txt-disallowed links
+    const allLinks = await page.$$('a[href]');
+    const links = [];
+    for (const link of allLinks) {
+      const href = await link.getAttribute('href');
+      if (!href) continue;
+      try {
+        if (this.isNavigable(sessionId, new URL(href, page.url()).toString())) links.push(link);
+      } catch {
+        // Unparseable href
+      }
+    }
     const buttons = await page.$$('button');
 
     const actions = [...links.slice(0, 3), ...buttons.slice(0, 2)];
@@ -403,6 +826,12 @@ export class CrawlerEngine {
         greenLightStatus: target?.greenLightStatus || 'RED',
         trustScore: target?.trustScore || 0
       },
+      technologies: parseTechnologies(target?.technologies).map(t => ({
+        name: t.name,
+        category: t.category,
+        version: t.version,
+        confidence: t.confidence
+      })),
       currentDNA: dna,
       observations: recentRequests.map(r => ({
         type: r.wasBlocked ? 'blocked' : r.challengeDetected ? 'challenge' : 'success',
@@ -490,6 +919,25 @@ export class CrawlerEngine {
     return snapshot?.id || null;
   }
 
+  private async saveSessionCookies(sessionId: string, context: BrowserContext): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    try {
+      const target = await prisma.target.findUnique({ where: { id: session.targetId } });
+      if (!target) return;
+
+      const jar = CookieJar.deserialize(target.sessionCookies, target.url);
+      jar.importStorageState(await context.storageState());
+      await prisma.target.update({
+        where: { id: session.targetId },
+        data: { sessionCookies: jar.serialize() }
+      });
+    } catch (error) {
+      console.error('Failed to persist session cookies:', error);
+    }
+  }
+
   private async cleanup(sessionId: string): Promise<void> {
     const page = this.pages.get(sessionId);
     const context = this.contexts.get(sessionId);
@@ -500,11 +948,18 @@ export class CrawlerEngine {
     }
 
     if (context) {
+      await this.saveSessionCookies(sessionId, context);
       await context.close();
       this.contexts.delete(sessionId);
     }
 
     this.sessions.delete(sessionId);
+    this.robots.delete(sessionId);
+    this.seeds.delete(sessionId);
+    this.scopes.delete(sessionId);
+    this.reportedFindings.delete(sessionId);
+    this.credentials.delete(sessionId);
+    this.strategies.delete(sessionId);
   }
 
   async pauseCrawl(sessionId: string): Promise<void> {
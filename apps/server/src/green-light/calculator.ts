@@ -1,4 +1,5 @@
 import { redis } from '../index';
+import { GREEN_LIGHT_RATE_LIMITS, RateLimit, describeRateLimit } from '@0x2e8/phantom-ai-crawler/crawler/ratelimit';
 
 export interface GreenLightSignals {
   fingerprint: {
@@ -295,27 +296,33 @@ export class GreenLightCalculator {
     canNavigate: boolean;
     recommendedAction: string;
     restrictions: string[];
+    rateLimit: RateLimit;
   }> {
+    const limits = GREEN_LIGHT_RATE_LIMITS;
     const recommendations = {
       RED: {
         canNavigate: false,
         recommendedAction: 'Stop and analyze. Current DNA is not trusted by target.',
-        restrictions: ['All navigation blocked']
+        restrictions: ['All navigation blocked'],
+        rateLimit: limits.RED
       },
       YELLOW: {
         canNavigate: true,
         recommendedAction: 'Proceed with caution. Use conservative timing and minimal interaction.',
-        restrictions: ['Max 1 request per 3 seconds', 'No form submissions', 'Read-only mode']
+        restrictions: [describeRateLimit(limits.YELLOW), 'No form submissions', 'Read-only mode'],
+        rateLimit: limits.YELLOW
       },
       GREEN: {
         canNavigate: true,
         recommendedAction: 'Normal navigation allowed. Continue building trust.',
-        restrictions: ['Max 3 requests per second', 'Simple forms allowed']
+        restrictions: [describeRateLimit(limits.GREEN), 'Simple forms allowed'],
+        rateLimit: limits.GREEN
       },
       ESTABLISHED: {
         canNavigate: true,
         recommendedAction: 'Full trust established. All navigation modes available.',
-        restrictions: []
+        restrictions: [],
+        rateLimit: limits.ESTABLISHED
       }
     };
 
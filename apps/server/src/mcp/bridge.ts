@@ -29,6 +29,12 @@ export interface MCPContext {
     greenLightStatus: string;
     trustScore: number;
   };
+  technologies?: Array<{
+    name: string;
+    category: string;
+    version?: string;
+    confidence: number;
+  }>;
   currentDNA: any;
   observations: Array<{
     type: string;
@@ -245,6 +251,9 @@ TARGET INFORMATION:
 - Trust Score: ${context.target.trustScore}/100
 - Target ID: ${context.target.id}
 
+DETECTED TECHNOLOGIES:
+${context.technologies?.map(t => `- [${t.category}] ${t.name}${t.version ? ' ' + t.version : ''} (${t.confidence}% confidence)`).join('\n') || 'None identified yet'}
+
 CURRENT BEHAVIORAL DNA:
 ${JSON.stringify(context.currentDNA, null, 2)}
 
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DiscoveredUrl" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "depth" INTEGER NOT NULL DEFAULT 0,
+    "referrer" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "responseStatus" INTEGER,
+    "contentType" TEXT,
+    "discoveredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "crawledAt" DATETIME,
+    CONSTRAINT "DiscoveredUrl_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DiscoveredUrl_targetId_idx" ON "DiscoveredUrl"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscoveredUrl_targetId_url_key" ON "DiscoveredUrl"("targetId", "url");
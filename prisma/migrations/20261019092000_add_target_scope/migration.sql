@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Target" ADD COLUMN "scope" TEXT;
+ALTER TABLE "Target" ADD COLUMN "outOfScopeBlocked" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_RequestLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "dnaVersionId" TEXT,
+    "parentRequestId" TEXT,
+    "redirectHop" INTEGER NOT NULL DEFAULT 0,
+    "method" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "headers" TEXT NOT NULL,
+    "body" TEXT,
+    "responseStatus" INTEGER,
+    "responseHeaders" TEXT,
+    "responseBodyPreview" TEXT,
+    "wasBlocked" BOOLEAN NOT NULL DEFAULT false,
+    "blockReason" TEXT,
+    "challengeDetected" BOOLEAN NOT NULL DEFAULT false,
+    "challengeType" TEXT,
+    "timingMs" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RequestLog_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "RequestLog_dnaVersionId_fkey" FOREIGN KEY ("dnaVersionId") REFERENCES "DnaSnapshot" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "RequestLog_parentRequestId_fkey" FOREIGN KEY ("parentRequestId") REFERENCES "RequestLog" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_RequestLog" ("blockReason", "body", "challengeDetected", "challengeType", "createdAt", "dnaVersionId", "headers", "id", "method", "responseBodyPreview", "responseHeaders", "responseStatus", "targetId", "timingMs", "url", "wasBlocked") SELECT "blockReason", "body", "challengeDetected", "challengeType", "createdAt", "dnaVersionId", "headers", "id", "method", "responseBodyPreview", "responseHeaders", "responseStatus", "targetId", "timingMs", "url", "wasBlocked" FROM "RequestLog";
+DROP TABLE "RequestLog";
+ALTER TABLE "new_RequestLog" RENAME TO "RequestLog";
+CREATE INDEX "RequestLog_targetId_idx" ON "RequestLog"("targetId");
+CREATE INDEX "RequestLog_parentRequestId_idx" ON "RequestLog"("parentRequestId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
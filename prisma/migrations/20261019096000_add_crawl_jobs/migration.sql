@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CrawlJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "options" TEXT,
+    "checkpoint" TEXT,
+    "iterations" INTEGER NOT NULL DEFAULT 0,
+    "requestsSent" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "currentUrl" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    CONSTRAINT "CrawlJob_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CrawlJob_targetId_idx" ON "CrawlJob"("targetId");
+
+-- CreateIndex
+CREATE INDEX "CrawlJob_status_idx" ON "CrawlJob"("status");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DiscoveredUrl" ADD COLUMN "contentHash" TEXT;
+ALTER TABLE "DiscoveredUrl" ADD COLUMN "duplicateOf" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DiscoveredUrl_targetId_contentHash_idx" ON "DiscoveredUrl"("targetId", "contentHash");
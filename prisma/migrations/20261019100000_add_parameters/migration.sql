@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Parameter" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "targetId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "inferredType" TEXT NOT NULL DEFAULT 'string',
+    "occurrences" INTEGER NOT NULL DEFAULT 0,
+    "examples" TEXT,
+    "endpoints" TEXT,
+    "firstSeen" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeen" DATETIME NOT NULL,
+    CONSTRAINT "Parameter_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Target" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Parameter_targetId_idx" ON "Parameter"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Parameter_targetId_location_name_key" ON "Parameter"("targetId", "location", "name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Target" ADD COLUMN "technologies" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RequestLog" ADD COLUMN "probe" BOOLEAN NOT NULL DEFAULT false;
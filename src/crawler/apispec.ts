@@ -0,0 +1,257 @@
+import { parse as parseYaml } from 'yaml';
+import { buildSchema, GraphQLObjectType } from 'graphql';
+import type { ExtractedDiscovery } from './extract.js';
+
+export type ApiSpecFormat = 'openapi' | 'swagger' | 'graphql';
+
+export interface ApiOperation {
+  method: string;
+  url: string;             // server URL + path; path templates keep their {braces}
+  operationId?: string;
+  summary?: string;
+  parameters: Array<{ name: string; in: string; required: boolean }>;
+}
+
+export interface ParsedApiSpec {
+  format: ApiSpecFormat;
+  title?: string;
+  version?: string;
+  operations: ApiOperation[];
+}
+
+/** What a probe needs back from the crawler making the request. */
+export interface SpecResponse {
+  statusCode?: number;
+  body?: string;
+}
+
+export type SpecFetcher = (url: string, method: string, body?: string, headers?: Record<string, string>) => Promise<SpecResponse>;
+
+export interface FoundApiSpec extends ParsedApiSpec {
+  source: string;
+}
+
+export class SpecError extends Error {}
+
+export const SPEC_PATHS = [
+  '/openapi.json',
+  '/openapi.yaml',
+  '/openapi.yml',
+  '/swagger.json',
+  '/swagger.yaml',
+  '/swagger/v1/swagger.json',
+  '/v3/api-docs',
+  '/v2/api-docs',
+  '/api-docs',
+  '/api-docs.json',
+  '/api/openapi.json',
+  '/api/swagger.json',
+  '/docs/openapi.json'
+];
+
+export const GRAPHQL_PATHS = ['/graphql', '/api/graphql', '/v1/graphql', '/graphql/v1', '/gql', '/query'];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Root fields are all we list; the full introspection query is far larger
+const INTROSPECTION_QUERY =
+  '{ __schema { queryType { fields { name } } mutationType { fields { name } } subscriptionType { fields { name } } } }';
+
+function parameters(list: unknown): ApiOperation['parameters'] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter(p => p && typeof p === 'object' && typeof p.name === 'string')
+    .map(p => ({ name: p.name, in: String(p.in || 'query'), required: Boolean(p.required) }));
+}
+
+function joinUrl(server: string, path: string): string {
+  return server.replace(/\/+$/, '') + '/' + path.replace(/^\/+/, '');
+}
+
+function serverUrl(doc: any, specUrl: string): string {
+  if (doc.swagger) {
+    const scheme = Array.isArray(doc.schemes) && doc.schemes.length > 0 ? doc.schemes[0] : new URL(specUrl).protocol.replace(':', '');
+    const host = doc.host || new URL(specUrl).host;
+    return scheme + '://' + host + (doc.basePath || '');
+  }
+  const server = Array.isArray(doc.servers) ? doc.servers[0] : undefined;
+  if (!server?.url) return new URL(specUrl).origin;
+  // Server variables take their defaults
+  const url = String(server.url).replace(/\{([^}]+)\}/g, (_, name) => server.variables?.[name]?.default ?? '');
+  return new URL(url, specUrl).toString();
+}
+
+function parseOpenApi(doc: any, specUrl: string): ParsedApiSpec {
+  const base = serverUrl(doc, specUrl);
+  const operations: ApiOperation[] = [];
+
+  for (const [path, item] of Object.entries<any>(doc.paths || {})) {
+    if (!item || typeof item !== 'object') continue;
+    const shared = parameters(item.parameters);
+    for (const method of HTTP_METHODS) {
+      const op = item[method];
+      if (!op || typeof op !== 'object') continue;
+      const own = parameters(op.parameters);
+      operations.push({
+        method: method.toUpperCase(),
+        url: joinUrl(base, path),
+        operationId: op.operationId,
+        summary: op.summary,
+        // Operation-level parameters override path-level ones with the same name and location
+        parameters: [...shared.filter(p => !own.some(o => o.name === p.name && o.in === p.in)), ...own]
+      });
+    }
+  }
+
+  return {
+    format: doc.swagger ? 'swagger' : 'openapi',
+    title: doc.info?.title,
+    version: doc.info?.version,
+    operations
+  };
+}
+
+function graphqlOperations(endpoint: string, fields: Record<'query' | 'mutation' | 'subscription', string[]>): ApiOperation[] {
+  const operations: ApiOperation[] = [];
+  for (const kind of ['query', 'mutation', 'subscription'] as const) {
+    for (const name of fields[kind]) {
+      operations.push({ method: 'POST', url: endpoint, operationId: kind + ' ' + name, parameters: [] });
+    }
+  }
+  return operations;
+}
+
+function parseIntrospection(schema: any, endpoint: string): ParsedApiSpec {
+  const names = (type: any): string[] => {
+    if (!type) return [];
+    // Full introspection results list fields under __schema.types, not on the root type refs
+    const fields = type.fields || schema.types?.find((t: any) => t.name === type.name)?.fields;
+    return Array.isArray(fields) ? fields.map((f: any) => f.name) : [];
+  };
+  return {
+    format: 'graphql',
+    operations: graphqlOperations(endpoint, {
+      query: names(schema.queryType),
+      mutation: names(schema.mutationType),
+      subscription: names(schema.subscriptionType)
+    })
+  };
+}
+
+function parseSdl(sdl: string, endpoint: string): ParsedApiSpec {
+  let schema;
+  try {
+    schema = buildSchema(sdl, { assumeValidSDL: true });
+  } catch (e) {
+    throw new SpecError('Invalid GraphQL schema: ' + (e as Error).message);
+  }
+  const names = (type: GraphQLObjectType | null | undefined) => (type ? Object.keys(type.getFields()) : []);
+  return {
+    format: 'graphql',
+    operations: graphqlOperations(endpoint, {
+      query: names(schema.getQueryType()),
+      mutation: names(schema.getMutationType()),
+      subscription: names(schema.getSubscriptionType())
+    })
+  };
+}
+
+/**
+ * Parses an API description into its operations. Accepts OpenAPI 3 and
+ * Swagger 2 (JSON or YAML), a GraphQL introspection result, or GraphQL
+ * SDL. specUrl resolves relative server URLs; for GraphQL it is the
+ * endpoint the operations are sent to. Throws SpecError for anything else.
+ */
+export function parseApiSpec(input: string | object, specUrl: string): ParsedApiSpec {
+  let doc: any = input;
+  if (typeof input === 'string') {
+    const text = input.trim();
+    if (!text.startsWith('{') && !/^(openapi|swagger)\s*:/m.test(text) && /\btype\s+(Query|Mutation|Subscription)\s*\{/.test(text)) {
+      return parseSdl(text, specUrl);
+    }
+    try {
+      doc = text.startsWith('{') ? JSON.parse(text) : parseYaml(text);
+    } catch (e) {
+      throw new SpecError('Not valid JSON or YAML: ' + (e as Error).message);
+    }
+  }
+
+  if (!doc || typeof doc !== 'object') throw new SpecError('Not an API specification');
+  if (doc.openapi || doc.swagger) {
+    if (!doc.paths || typeof doc.paths !== 'object') throw new SpecError('Specification has no paths');
+    return parseOpenApi(doc, specUrl);
+  }
+  const schema = doc.__schema || doc.data?.__schema;
+  if (schema) return parseIntrospection(schema, specUrl);
+
+  throw new SpecError('Not an OpenAPI/Swagger document or GraphQL schema');
+}
+
+/** Discovery records for a parsed spec: one for the spec, one per operation. */
+export function specDiscoveries(spec: ParsedApiSpec, source: string): ExtractedDiscovery[] {
+  return [
+    {
+      type: 'apispec',
+      value: source,
+      details: { format: spec.format, title: spec.title, version: spec.version, operations: spec.operations.length }
+    },
+    ...spec.operations.map(op => ({
+      type: 'operation' as const,
+      value: op.method + ' ' + op.url + (spec.format === 'graphql' ? ' ' + op.operationId : ''),
+      details: { ...op, format: spec.format, source }
+    }))
+  ];
+}
+
+/** Documented operations worth putting in the frontier: GETs without path parameters. */
+export function crawlableOperations(operations: ApiOperation[]): string[] {
+  return operations.filter(op => op.method === 'GET' && !op.url.includes('{')).map(op => op.url);
+}
+
+/**
+ * Probes the usual OpenAPI/Swagger locations and GraphQL endpoints. Stops
+ * at the first document of each kind, so a site serving the same spec at
+ * five paths costs one parse.
+ */
+export async function discoverApiSpecs(baseUrl: string, fetch: SpecFetcher): Promise<FoundApiSpec[]> {
+  const origin = new URL(baseUrl).origin;
+  const found: FoundApiSpec[] = [];
+
+  for (const path of SPEC_PATHS) {
+    const url = origin + path;
+    const response = await fetch(url, 'GET', undefined, { 'Accept': 'application/json, application/yaml, */*' }).catch(() => null);
+    if (response?.statusCode !== 200 || !response.body) continue;
+    try {
+      const spec = parseApiSpec(response.body, url);
+      if (spec.format === 'graphql') continue;
+      found.push({ ...spec, source: url });
+      break;
+    } catch {
+      // SPA fallback pages and error documents land here
+    }
+  }
+
+  for (const path of GRAPHQL_PATHS) {
+    const url = origin + path;
+    const response = await fetch(url, 'POST', JSON.stringify({ query: INTROSPECTION_QUERY }), { 'Content-Type': 'application/json', 'Accept': 'application/json' }).catch(() => null);
+    if (!response?.body) continue;
+
+    let json: any;
+    try {
+      json = JSON.parse(response.body);
+    } catch {
+      continue;
+    }
+    if (json?.data?.__schema) {
+      found.push({ ...parseIntrospection(json.data.__schema, url), source: url });
+      break;
+    }
+    // Introspection disabled still answers in GraphQL's error shape
+    if (Array.isArray(json?.errors) && json.errors.some((e: any) => /graphql|query|introspection|__schema/i.test(String(e?.message)))) {
+      found.push({ format: 'graphql', operations: [], source: url });
+      break;
+    }
+  }
+
+  return found;
+}
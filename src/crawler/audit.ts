@@ -0,0 +1,226 @@
+import type { ReportedFinding } from './findings.js';
+
+export type IssueSeverity = 'info' | 'low' | 'medium' | 'high';
+
+/**
+ * One weakness in how a host configures its responses. Issues are per
+ * host: the same missing header on a thousand pages is one issue, keyed
+ * on host, check and subject (the cookie or directive concerned).
+ */
+export interface SecurityIssue {
+  check: string;
+  host: string;
+  subject?: string;
+  title: string;
+  severity: IssueSeverity;
+  evidence: string;
+  url: string;
+}
+
+// 180 days; shorter HSTS lifetimes leave long windows for SSL stripping
+const MIN_HSTS_MAX_AGE = 15552000;
+
+const UNSAFE_SOURCES = ["'unsafe-inline'", "'unsafe-eval'", '*', 'http:', 'https:', 'data:'];
+const WEAK_REFERRER_POLICIES = ['unsafe-url', 'no-referrer-when-downgrade'];
+const SESSION_COOKIE = /sess|sid$|auth|token|jwt|login/i;
+
+const CHECK_CWES: Record<string, number> = {
+  'csp-missing': 693,
+  'csp-report-only': 693,
+  'csp-weak': 693,
+  'framing-missing': 1021,
+  'framing-weak': 1021,
+  'hsts-missing': 319,
+  'hsts-weak': 319,
+  'referrer-policy-missing': 200,
+  'referrer-policy-weak': 200,
+  'cors-null-origin': 942,
+  'cors-wildcard': 942,
+  'cookie-no-secure': 614,
+  'cookie-no-httponly': 1004,
+  'cookie-no-samesite': 1275,
+  'cookie-samesite-none-insecure': 1275
+};
+
+function header(headers: Record<string, unknown>, name: string): string | undefined {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  if (!key || headers[key] === undefined) return undefined;
+  const value = headers[key];
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/** Set-Cookie values; browsers (Playwright) join several with newlines. */
+function setCookies(headers: Record<string, unknown>): string[] {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === 'set-cookie');
+  if (!key) return [];
+  const value = headers[key];
+  return (Array.isArray(value) ? value.map(String) : String(value).split('\n')).filter(Boolean);
+}
+
+function parseCsp(policy: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+  for (const part of policy.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (name && !directives.has(name.toLowerCase())) directives.set(name.toLowerCase(), sources.map(s => s.toLowerCase()));
+  }
+  return directives;
+}
+
+/** The cookie as the server set it, value redacted: attributes are the evidence, the session is not. */
+function redactCookie(cookie: string): string {
+  const separator = cookie.indexOf('=');
+  const end = cookie.indexOf(';');
+  if (separator < 0) return cookie;
+  return cookie.slice(0, separator + 1) + '<redacted>' + (end > separator ? cookie.slice(end) : '');
+}
+
+function auditCsp(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>) {
+  const policy = header(headers, 'content-security-policy');
+  if (!policy) {
+    const reportOnly = header(headers, 'content-security-policy-report-only');
+    if (reportOnly) {
+      add({ check: 'csp-report-only', title: 'Content-Security-Policy is only reported, not enforced', severity: 'low', evidence: 'Content-Security-Policy-Report-Only: ' + reportOnly });
+    } else {
+      add({ check: 'csp-missing', title: 'No Content-Security-Policy', severity: 'medium', evidence: 'Content-Security-Policy header absent' });
+    }
+    return;
+  }
+
+  const directives = parseCsp(policy);
+  const scripts = directives.get('script-src') || directives.get('default-src');
+  if (!scripts) {
+    add({ check: 'csp-weak', subject: 'script-src', title: 'Content-Security-Policy does not restrict scripts', severity: 'medium', evidence: 'Content-Security-Policy: ' + policy });
+  } else {
+    // A nonce or hash makes browsers ignore 'unsafe-inline'
+    const hashed = scripts.some(s => /^'(nonce|sha256|sha384|sha512)-/.test(s));
+    const unsafe = scripts.filter(s => UNSAFE_SOURCES.includes(s) && !(hashed && s === "'unsafe-inline'"));
+    if (unsafe.length > 0) {
+      add({ check: 'csp-weak', subject: 'script-src', title: 'Content-Security-Policy allows ' + unsafe.join(' ') + ' scripts', severity: 'medium', evidence: 'Content-Security-Policy: ' + policy });
+    }
+  }
+  if (!directives.has('object-src') && !directives.has('default-src')) {
+    add({ check: 'csp-weak', subject: 'object-src', title: 'Content-Security-Policy does not restrict plugins (object-src)', severity: 'low', evidence: 'Content-Security-Policy: ' + policy });
+  }
+}
+
+function auditFraming(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>) {
+  const frameAncestors = parseCsp(header(headers, 'content-security-policy') || '').get('frame-ancestors');
+  const frameOptions = header(headers, 'x-frame-options');
+  if (frameAncestors) return;
+
+  if (!frameOptions) {
+    add({ check: 'framing-missing', title: 'No X-Frame-Options or CSP frame-ancestors (clickjacking)', severity: 'medium', evidence: 'X-Frame-Options header absent, Content-Security-Policy has no frame-ancestors' });
+  } else if (!/^\s*(deny|sameorigin)\s*$/i.test(frameOptions)) {
+    // ALLOW-FROM is ignored by current browsers, which then allow framing
+    add({ check: 'framing-weak', title: 'X-Frame-Options value is not DENY or SAMEORIGIN', severity: 'medium', evidence: 'X-Frame-Options: ' + frameOptions });
+  }
+}
+
+function auditHsts(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>) {
+  const hsts = header(headers, 'strict-transport-security');
+  if (!hsts) {
+    add({ check: 'hsts-missing', title: 'No Strict-Transport-Security', severity: 'medium', evidence: 'Strict-Transport-Security header absent on HTTPS response' });
+    return;
+  }
+  const maxAge = hsts.match(/max-age\s*=\s*"?(\d+)/i);
+  if (!maxAge || Number(maxAge[1]) < MIN_HSTS_MAX_AGE) {
+    add({ check: 'hsts-weak', title: Number(maxAge?.[1]) === 0 ? 'Strict-Transport-Security is disabled (max-age=0)' : 'Strict-Transport-Security max-age is under 180 days', severity: 'low', evidence: 'Strict-Transport-Security: ' + hsts });
+  }
+}
+
+function auditReferrerPolicy(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>) {
+  const policy = header(headers, 'referrer-policy');
+  if (!policy) {
+    // Browsers now default to strict-origin-when-cross-origin, so absence alone leaks little
+    add({ check: 'referrer-policy-missing', title: 'No Referrer-Policy', severity: 'info', evidence: 'Referrer-Policy header absent' });
+    return;
+  }
+  // With a list, browsers use the last value they support
+  const effective = policy.split(',').map(p => p.trim().toLowerCase()).filter(Boolean).pop();
+  if (effective && WEAK_REFERRER_POLICIES.includes(effective)) {
+    add({ check: 'referrer-policy-weak', title: 'Referrer-Policy ' + effective + ' leaks full URLs to other sites', severity: 'low', evidence: 'Referrer-Policy: ' + policy });
+  }
+}
+
+function auditCors(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>) {
+  const allowOrigin = header(headers, 'access-control-allow-origin')?.trim();
+  if (!allowOrigin) return;
+  const credentials = /^\s*true\s*$/i.test(header(headers, 'access-control-allow-credentials') || '');
+  const evidence = 'Access-Control-Allow-Origin: ' + allowOrigin + (credentials ? ', Access-Control-Allow-Credentials: true' : '');
+
+  if (allowOrigin === 'null') {
+    add({ check: 'cors-null-origin', title: 'CORS allows the null origin' + (credentials ? ' with credentials' : ''), severity: credentials ? 'high' : 'medium', evidence });
+  } else if (allowOrigin === '*') {
+    // Browsers refuse credentials with a wildcard, but the intent is worth reporting
+    add({ check: 'cors-wildcard', title: 'CORS allows any origin' + (credentials ? ' and asks for credentials' : ''), severity: credentials ? 'medium' : 'low', evidence });
+  }
+}
+
+function auditCookies(add: (issue: Omit<SecurityIssue, 'host' | 'url'>) => void, headers: Record<string, unknown>, https: boolean) {
+  for (const cookie of setCookies(headers)) {
+    const [pair, ...attributes] = cookie.split(';').map(p => p.trim());
+    const name = pair.split('=')[0].trim();
+    if (!name) continue;
+    const flags = attributes.map(a => a.toLowerCase());
+    const sameSite = flags.find(a => a.startsWith('samesite'))?.split('=')[1]?.trim();
+    const secure = flags.includes('secure');
+    const session = SESSION_COOKIE.test(name);
+    const evidence = 'Set-Cookie: ' + redactCookie(cookie);
+
+    if (https && !secure) {
+      add({ check: 'cookie-no-secure', subject: name, title: 'Cookie ' + name + ' set without Secure', severity: session ? 'medium' : 'low', evidence });
+    }
+    if (!flags.includes('httponly')) {
+      add({ check: 'cookie-no-httponly', subject: name, title: 'Cookie ' + name + ' set without HttpOnly', severity: session ? 'medium' : 'low', evidence });
+    }
+    if (!sameSite) {
+      add({ check: 'cookie-no-samesite', subject: name, title: 'Cookie ' + name + ' set without SameSite', severity: 'low', evidence });
+    } else if (sameSite === 'none' && !secure) {
+      add({ check: 'cookie-samesite-none-insecure', subject: name, title: 'Cookie ' + name + ' is SameSite=None without Secure (rejected by browsers)', severity: 'low', evidence });
+    }
+  }
+}
+
+/**
+ * Passive checks on one response: CSP, framing protection, HSTS and
+ * Referrer-Policy on HTML documents, CORS on anything, and the flags of
+ * every cookie set. Nothing is sent: origin reflection needs an active
+ * probe and is not checked here.
+ */
+export function auditResponse(url: string, headers: Record<string, unknown>): SecurityIssue[] {
+  const parsed = new URL(url);
+  const https = parsed.protocol === 'https:';
+  const issues: SecurityIssue[] = [];
+  const add = (issue: Omit<SecurityIssue, 'host' | 'url'>) => issues.push({ ...issue, host: parsed.host, url });
+
+  const contentType = header(headers, 'content-type') || '';
+  if (contentType.includes('html')) {
+    auditCsp(add, headers);
+    auditFraming(add, headers);
+    auditReferrerPolicy(add, headers);
+  }
+  if (https) auditHsts(add, headers);
+  auditCors(add, headers);
+  auditCookies(add, headers, https);
+  return issues;
+}
+
+/** Key issues are deduplicated on. */
+export function issueKey(issue: SecurityIssue): string {
+  return issue.host + ' ' + issue.check + (issue.subject ? ' ' + issue.subject : '');
+}
+
+/** Issues as findings of the headers detector. Header checks read the response itself, so confidence is full. */
+export function issueFindings(issues: SecurityIssue[], requestLogId?: string): ReportedFinding[] {
+  return issues.map(issue => ({
+    detector: 'headers',
+    key: issueKey(issue),
+    title: issue.title + ' (' + issue.host + ')',
+    severity: issue.severity,
+    confidence: 100,
+    cwe: CHECK_CWES[issue.check],
+    url: issue.url,
+    evidence: { check: issue.check, host: issue.host, subject: issue.subject, evidence: issue.evidence },
+    requestLogId
+  }));
+}
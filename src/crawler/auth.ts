@@ -0,0 +1,355 @@
+import { CookieJar, BrowserCookie } from './cookies.js';
+import { LoginIndicators, buildFormPayload, findLoginForm, findMetaCsrfToken, inferCredentialFields, parseForms } from './login.js';
+
+export type AuthStrategyType = 'form' | 'json' | 'basic' | 'bearer' | 'header' | 'cookie';
+
+export interface LoginStrategyConfig {
+  type: 'form' | 'json';
+  username: string;
+  password: string;
+  endpoint?: string;
+  usernameField?: string;
+  passwordField?: string;
+  successIndicators?: LoginIndicators;
+  loggedOutText?: string;
+  sessionCookie?: string;
+}
+
+export interface BasicStrategyConfig {
+  type: 'basic';
+  username: string;
+  password: string;
+}
+
+export interface BearerStrategyConfig {
+  type: 'bearer';
+  token: string;
+}
+
+export interface HeaderStrategyConfig {
+  type: 'header';
+  name: string;
+  value: string;
+}
+
+export interface CookieStrategyConfig {
+  type: 'cookie';
+  cookies?: string;        // "name=value; other=value", as copied from devtools
+  har?: unknown;           // HAR export; cookies are taken from its entries
+}
+
+export type AuthStrategyConfig =
+  | LoginStrategyConfig
+  | BasicStrategyConfig
+  | BearerStrategyConfig
+  | HeaderStrategyConfig
+  | CookieStrategyConfig;
+
+/** A login submission ready to be sent by either crawler. */
+export interface LoginRequest {
+  loginUrl: string;
+  url: string;
+  method: string;
+  body?: string;
+  headers: Record<string, string>;
+}
+
+export class AuthError extends Error {}
+
+const STRATEGY_TYPES: AuthStrategyType[] = ['form', 'json', 'basic', 'bearer', 'header', 'cookie'];
+const SECRET_FIELDS = ['password', 'token', 'value', 'cookies', 'har'];
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+// The keys extractToken reads, plus refresh tokens; matches truncated previews too
+const TOKEN_VALUE = /("(?:(?:access|refresh|id)_?token|token|jwt)"\s*:\s*")[^"]*/gi;
+
+function requireString(raw: Record<string, unknown>, field: string): string {
+  const value = raw[field];
+  if (typeof value !== 'string' || !value) throw new AuthError(field + ' is required');
+  return value;
+}
+
+function optionalString(raw: Record<string, unknown>, field: string): string | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new AuthError(field + ' must be a string');
+  return value;
+}
+
+/**
+ * Validates an auth strategy from the API or Target.authStrategy. A body
+ * with username/password but no type is treated as a form login, which is
+ * what POST /api/auth/:targetId accepted before strategies existed.
+ */
+export function parseAuthStrategy(value: unknown): AuthStrategyConfig {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+  if (typeof raw !== 'object' || raw === null) throw new AuthError('Auth strategy must be an object');
+
+  const fields = raw as Record<string, unknown>;
+  const type = (fields.type ?? 'form') as AuthStrategyType;
+  if (!STRATEGY_TYPES.includes(type)) {
+    throw new AuthError('type must be one of ' + STRATEGY_TYPES.join(', '));
+  }
+
+  switch (type) {
+    case 'form':
+    case 'json': {
+      const indicators = fields.successIndicators;
+      if (indicators !== undefined && (typeof indicators !== 'object' || indicators === null)) {
+        throw new AuthError('successIndicators must be an object');
+      }
+      return {
+        type,
+        username: requireString(fields, 'username'),
+        password: requireString(fields, 'password'),
+        endpoint: optionalString(fields, 'endpoint'),
+        usernameField: optionalString(fields, 'usernameField'),
+        passwordField: optionalString(fields, 'passwordField'),
+        successIndicators: indicators as LoginIndicators | undefined,
+        loggedOutText: optionalString(fields, 'loggedOutText'),
+        sessionCookie: optionalString(fields, 'sessionCookie')
+      };
+    }
+    case 'basic':
+      return { type, username: requireString(fields, 'username'), password: requireString(fields, 'password') };
+    case 'bearer':
+      return { type, token: requireString(fields, 'token').replace(/^Bearer\s+/i, '') };
+    case 'header': {
+      const name = requireString(fields, 'name');
+      if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) throw new AuthError('name is not a valid header name');
+      return { type, name, value: requireString(fields, 'value') };
+    }
+    case 'cookie': {
+      const cookies = optionalString(fields, 'cookies');
+      const har = typeof fields.har === 'string' ? JSON.parse(fields.har) : fields.har;
+      if (!cookies && !har) throw new AuthError('cookies or har is required');
+      if (har && !Array.isArray((har as any).log?.entries)) throw new AuthError('har must be a HAR export with log.entries');
+      return { type, cookies, har };
+    }
+  }
+}
+
+/** Strategy with secrets masked, safe to return from the API. */
+export function redactAuthStrategy(config: AuthStrategyConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const field of SECRET_FIELDS) {
+    if (redacted[field] !== undefined) redacted[field] = '********';
+  }
+  return redacted;
+}
+
+function maskPassword(body: string, config: LoginStrategyConfig): string {
+  const isSecret = (name: string, value: unknown) => name === config.passwordField || value === config.password;
+  const mask = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(mask);
+    if (typeof value !== 'object' || value === null) return value;
+    return Object.fromEntries(Object.entries(value).map(([name, v]) => [name, isSecret(name, v) ? '********' : mask(v)]));
+  };
+
+  try {
+    const json = JSON.parse(body);
+    if (typeof json === 'object' && json !== null) return JSON.stringify(mask(json));
+  } catch {
+    // Not JSON
+  }
+  if (/^[^=&\s]+=/.test(body)) {
+    const params = [...new URLSearchParams(body)].map(([name, value]): [string, string] => [name, isSecret(name, value) ? '********' : value]);
+    return new URLSearchParams(params).toString();
+  }
+  return body.split(config.password).join('********');
+}
+
+/**
+ * A request as it may be stored in the request log: auth and cookie
+ * headers masked, the strategy's own header too, and the login password
+ * wherever it appears in a form or JSON body.
+ */
+export function redactRequest(headers: Record<string, unknown>, body: string | undefined, config?: AuthStrategyConfig | null): { headers: Record<string, unknown>; body?: string } {
+  const secret = config?.type === 'header' ? [...CREDENTIAL_HEADERS, config.name.toLowerCase()] : CREDENTIAL_HEADERS;
+  const redacted = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, secret.includes(name.toLowerCase()) ? '********' : value]));
+  if (!body || !config || !isLoginStrategy(config)) return { headers: redacted, body };
+  return { headers: redacted, body: maskPassword(body, config) };
+}
+
+/** Set-Cookie with the value masked; name and attributes stay, audits and fingerprints read those. */
+function maskSetCookie(cookie: string): string {
+  const separator = cookie.indexOf('=');
+  const end = cookie.indexOf(';');
+  if (separator < 0 || (end >= 0 && end < separator)) return cookie;
+  return cookie.slice(0, separator + 1) + '********' + (end > separator ? cookie.slice(end) : '');
+}
+
+/**
+ * A response as it may be stored in the request log: session cookie
+ * values, tokens in a JSON body (a login response, typically) and
+ * credentials echoed into Location are masked.
+ */
+export function redactResponse(headers: Record<string, unknown>, body: string | undefined, config?: AuthStrategyConfig | null): { headers: Record<string, unknown>; body?: string } {
+  const redacted = Object.fromEntries(Object.entries(headers).map(([name, value]) => {
+    const key = name.toLowerCase();
+    if (key === 'set-cookie') {
+      // Node gives an array; browsers (Playwright) join several cookies with newlines
+      return [name, Array.isArray(value) ? value.map(c => maskSetCookie(String(c))) : String(value).split('\n').map(maskSetCookie).join('\n')];
+    }
+    if (key === 'location' && typeof value === 'string') return [name, redactUrl(value, config)];
+    return [name, value];
+  }));
+  return { headers: redacted, body: body?.replace(TOKEN_VALUE, '$1********') };
+}
+
+/**
+ * A URL as it may be logged. Login forms that use GET put the username and
+ * password in the query string.
+ */
+export function redactUrl(url: string, config?: AuthStrategyConfig | null): string {
+  if (!config || !isLoginStrategy(config)) return url;
+  try {
+    // Location headers may be relative
+    const absolute = /^[a-z][a-z0-9+.-]*:/i.test(url);
+    const parsed = new URL(url, 'http://relative.invalid');
+    const credentials = [...parsed.searchParams].filter(([name, value]) =>
+      name === config.passwordField || name === config.usernameField || value === config.password || value === config.username);
+    if (credentials.length === 0) return url;
+    for (const [name] of credentials) parsed.searchParams.set(name, '********');
+    return absolute ? parsed.toString() : parsed.pathname + parsed.search + parsed.hash;
+  } catch {
+    return url;
+  }
+}
+
+export function isLoginStrategy(config: AuthStrategyConfig): config is LoginStrategyConfig {
+  return config.type === 'form' || config.type === 'json';
+}
+
+/** Headers that static strategies attach to requests to the target origin. */
+export function authHeaders(config: AuthStrategyConfig): Record<string, string> {
+  switch (config.type) {
+    case 'basic':
+      return { 'Authorization': 'Basic ' + Buffer.from(config.username + ':' + config.password).toString('base64') };
+    case 'bearer':
+      return { 'Authorization': 'Bearer ' + config.token };
+    case 'header':
+      return { [config.name]: config.value };
+    default:
+      return {};
+  }
+}
+
+function harCookies(har: any, baseUrl: string): BrowserCookie[] {
+  const entries: any[] = har?.log?.entries;
+  if (!Array.isArray(entries)) throw new AuthError('har must be a HAR export with log.entries');
+
+  const cookies = new Map<string, BrowserCookie>();
+  for (const entry of entries) {
+    let host = new URL(baseUrl).hostname;
+    try {
+      host = new URL(entry.request?.url).hostname;
+    } catch {
+      // Entry without a usable URL: fall back to the target host
+    }
+    // Later entries win, so the most recent value of each cookie is kept
+    for (const c of [...(entry.request?.cookies || []), ...(entry.response?.cookies || [])]) {
+      if (!c?.name) continue;
+      const domain = c.domain || host;
+      const expires = c.expires ? Math.floor(Date.parse(c.expires) / 1000) : -1;
+      cookies.set(c.name + '|' + domain + '|' + (c.path || '/'), {
+        name: c.name,
+        value: String(c.value ?? ''),
+        domain,
+        path: c.path || '/',
+        expires: isNaN(expires) ? -1 : expires,
+        httpOnly: Boolean(c.httpOnly),
+        secure: Boolean(c.secure),
+        sameSite: 'Lax'
+      });
+    }
+  }
+  return [...cookies.values()];
+}
+
+/** Cookies an imported-cookie strategy seeds into the jar. Returns the count. */
+export function seedCookies(config: AuthStrategyConfig, jar: CookieJar, baseUrl: string): number {
+  if (config.type !== 'cookie') return 0;
+
+  const host = new URL(baseUrl).hostname;
+  const cookies: BrowserCookie[] = [];
+  for (const pair of (config.cookies || '').replace(/^cookie:\s*/i, '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    cookies.push({
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: host,
+      path: '/',
+      expires: -1,
+      httpOnly: false,
+      secure: false,
+      sameSite: 'Lax'
+    });
+  }
+  if (config.har) cookies.push(...harCookies(config.har, baseUrl));
+
+  jar.importStorageState({ cookies });
+  return cookies.length;
+}
+
+/** CSRF headers from a <meta> tag or a double-submit cookie (Angular, Laravel, Django). */
+export function csrfHeaders(pageBody: string, cookies: Array<{ name: string; value: string }>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const meta = findMetaCsrfToken(pageBody);
+  if (meta) headers['X-CSRF-Token'] = meta.value;
+  const cookie = cookies.find(c => /^(XSRF-TOKEN|csrftoken|_csrf)$/i.test(c.name));
+  if (cookie) headers[cookie.name === 'csrftoken' ? 'X-CSRFToken' : 'X-XSRF-TOKEN'] = decodeURIComponent(cookie.value);
+  return headers;
+}
+
+/** Candidate login pages to probe when no endpoint is configured. */
+export function loginPageCandidates(config: LoginStrategyConfig): string[] {
+  return config.endpoint ? [config.endpoint] : ['/login', '/signin', '/auth', '/account/login', '/users/sign_in'];
+}
+
+/**
+ * Turns a fetched login page into the form submission a browser would
+ * make. Throws AuthError when no usable form is found.
+ */
+export function prepareFormLogin(config: LoginStrategyConfig, page: { url: string; body: string }): LoginRequest {
+  const form = findLoginForm(parseForms(page.body, page.url));
+  if (!form) throw new AuthError('No login form found on ' + page.url);
+
+  const names = inferCredentialFields(form, config.usernameField, config.passwordField);
+  if (!names.username || !names.password) {
+    throw new AuthError('Could not identify username/password inputs (' + form.fields.map(f => f.name).join(', ') + ')');
+  }
+
+  const payload = buildFormPayload(form, {
+    [names.username]: config.username,
+    [names.password]: config.password
+  }).toString();
+  const headers = { 'Referer': page.url, 'Origin': new URL(page.url).origin };
+
+  return {
+    loginUrl: page.url,
+    url: form.method === 'POST' ? form.action : form.action + (form.action.includes('?') ? '&' : '?') + payload,
+    method: form.method === 'POST' ? 'POST' : 'GET',
+    body: form.method === 'POST' ? payload : undefined,
+    headers: form.method === 'POST' ? { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' } : headers
+  };
+}
+
+export function prepareJsonLogin(config: LoginStrategyConfig, baseUrl: string): LoginRequest {
+  if (!config.endpoint) throw new AuthError('JSON login requires an endpoint');
+  const url = new URL(config.endpoint, baseUrl).toString();
+  return {
+    loginUrl: url,
+    url,
+    method: 'POST',
+    body: JSON.stringify({
+      [config.usernameField || 'username']: config.username,
+      [config.passwordField || 'password']: config.password
+    }),
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Origin': new URL(baseUrl).origin
+    }
+  };
+}
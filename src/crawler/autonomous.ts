@@ -1,22 +1,68 @@
-import https from 'https';
-import { SocksProxyAgent } from 'socks-proxy-agent';
 import { PrismaClient } from '@prisma/client';
-
-process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
+import { CrawlFrontier, FrontierEntry, FrontierSnapshot, extractLinks } from './frontier.js';
+import { RobotsPolicy, discoverSite } from './robots.js';
+import { ScopeEngine } from './scope.js';
+import { Transport } from './transport.js';
+import { ProxyError, ProxySettings, checkProxy, describeProxy, parseProxyUrl, proxyTunnel, resolveProxySettings } from './proxy.js';
+import { ConfigManager } from '../config/manager.js';
+import { CookieJar } from './cookies.js';
+import { decodeBody } from './decode.js';
+import { ExtractedDiscovery, extractDiscoveries, saveDiscoveries } from './extract.js';
+import { analyzeScript, crawlableEndpoints, isJavaScript } from './scripts.js';
+import { ApiOperation, crawlableOperations, discoverApiSpecs, specDiscoveries } from './apispec.js';
+import { Soft404Detector, contentHash } from './soft404.js';
+import { auditResponse, issueFindings } from './audit.js';
+import { ReportedFinding, reportFindings } from './findings.js';
+import { ARTIFACT_PATHS, scanResponse, sensitiveFindings } from './sensitive.js';
+import { FingerprintInput, TechnologyProfile, detectTechnologies, faviconHash, parseTechnologies } from './fingerprint.js';
+import { ParameterInventory, ParameterLocation, ParameterType, observeForms, observeRequest, observeSetCookies } from './params.js';
+import { detectLoggedOut, evaluateLogin, extractToken, findLoginForm, parseForms } from './login.js';
+import { hostRateLimiter, parseRetryAfter, rateLimitFor } from './ratelimit.js';
+import { LearnedRateLimit, estimateRateLimit, isViolation, parseLearnedRateLimit, recordSuccess, recordViolation } from './ratemodel.js';
+import { AuthError, AuthStrategyConfig, LoginRequest, LoginStrategyConfig, authHeaders, csrfHeaders, isLoginStrategy, loginPageCandidates, parseAuthStrategy, prepareFormLogin, prepareJsonLogin, redactRequest, redactResponse, redactUrl, seedCookies } from './auth.js';
 
 const prisma = new PrismaClient();
-const PROXY_URL = 'socks5://127.0.0.1:1080';
+const DEFAULT_PROXY_URL = 'socks5://127.0.0.1:1080';
+const PREVIEW_LENGTH = 2000;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REAUTH_FAILURES = 3;
+const LOGOUT_PATTERN = /(log|sign)[-_]?out|logoff/i;
 
-interface CrawlConfig {
+export interface CrawlConfig {
   targetId: string;
   url: string;
   maxIterations?: number;
+  maxDepth?: number;
+  maxBodyBytes?: number;
+  followRedirects?: boolean;
+  maxRedirects?: number;
   delayMs?: number;
-  auth?: {
-    username: string;
-    password: string;
-    endpoint?: string;
-  };
+  auth?: AuthStrategyConfig;
+  checkpoint?: CrawlCheckpoint;
+  onCheckpoint?: (checkpoint: CrawlCheckpoint) => Promise<void>;
+}
+
+/** Progress saved after every iteration so a crawl can resume where it stopped. */
+export interface CrawlCheckpoint {
+  frontier: FrontierSnapshot;
+  iteration: number;
+  requestsSent: number;
+  errors: number;
+  currentUrl?: string;
+}
+
+interface RedirectHop {
+  url: string;
+  method: string;
+  statusCode: number;
+  location: string;
+}
+
+/** Why a 200 response does not count as a new page. */
+interface ContentVerdict {
+  contentHash?: string;
+  status?: 'soft_404' | 'duplicate';
+  duplicateOf?: string;
 }
 
 interface CrawlResult {
@@ -24,42 +70,145 @@ interface CrawlResult {
   statusCode?: number;
   headers?: any;
   body?: string;
+  rawBody?: Buffer;
+  binary?: boolean;
+  truncated?: boolean;
   error?: string;
   hasChallenge?: boolean;
+  outOfScope?: boolean;
+  redirectRefused?: boolean;
+  finalUrl?: string;
+  redirectChain?: RedirectHop[];
+  requestLogId?: string;
   responseTime: number;
   cookies?: string[];
 }
 
-class AutonomousCrawler {
+export interface CrawlStatus {
+  running: boolean;
+  iteration: number;
+  maxIterations: number;
+  requestsSent: number;
+  errors: number;
+  currentUrl?: string;
+  queued: number;
+  discovered: number;
+  authenticated: boolean;
+  lastError?: string;
+}
+
+export class AutonomousCrawler {
   private targetId: string;
   private baseUrl: string;
   private maxIterations: number;
+  private maxDepth: number;
+  private maxBodyBytes: number;
+  private followRedirects: boolean;
+  private maxRedirects: number;
   private delayMs: number;
-  private agent: SocksProxyAgent;
+  private transport: Transport;
+  private proxy: ProxySettings = parseProxyUrl(DEFAULT_PROXY_URL);
+  private requestTimeout: number = 15000;
   private isRunning: boolean = false;
   private iteration: number = 0;
+  private requestsSent: number = 0;
+  private errors: number = 0;
+  private currentUrl?: string;
+  private lastError?: string;
   private dna: any = {};
-  private cookies: string[] = [];
-  private authConfig?: CrawlConfig['auth'];
+  private jar: CookieJar = new CookieJar();
+  private authHeaders: Record<string, string> = {};
+  private authenticated: boolean = false;
+  private loginPath?: string;
+  private sessionCookieNames: string[] = [];
+  private reauthFailures: number = 0;
+  private authStrategy?: AuthStrategyConfig;
+  private authConfig?: LoginStrategyConfig;
+  private greenLight: string = 'YELLOW';
+  private rateModel?: LearnedRateLimit;
+  private soft404?: Soft404Detector;
+  private parameters: ParameterInventory = new ParameterInventory();
+  private technologies: TechnologyProfile = new TechnologyProfile();
+  private reportedFindings: Set<string> = new Set();
+  private frontier: CrawlFrontier;
+  private robots: RobotsPolicy | null = null;
+  private ignoreRobots: boolean = false;
+  private scope: ScopeEngine;
+  private onCheckpoint?: CrawlConfig['onCheckpoint'];
 
   constructor(config: CrawlConfig) {
     this.targetId = config.targetId;
     this.baseUrl = config.url;
     this.maxIterations = config.maxIterations || 100;
+    this.maxDepth = config.maxDepth ?? 3;
+    this.maxBodyBytes = config.maxBodyBytes || 5 * 1024 * 1024;
+    this.followRedirects = config.followRedirects ?? true;
+    this.maxRedirects = config.maxRedirects ?? 5;
     this.delayMs = config.delayMs || 2000;
-    this.authConfig = config.auth;
-    this.agent = new SocksProxyAgent(PROXY_URL);
+    this.authStrategy = config.auth;
+    this.frontier = config.checkpoint
+      ? CrawlFrontier.restore(this.maxDepth, config.checkpoint.frontier)
+      : new CrawlFrontier(this.maxDepth);
+    this.iteration = config.checkpoint?.iteration || 0;
+    this.requestsSent = config.checkpoint?.requestsSent || 0;
+    this.errors = config.checkpoint?.errors || 0;
+    this.onCheckpoint = config.onCheckpoint;
+    this.scope = new ScopeEngine(this.baseUrl);
     
     this.dna = {
       userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
         'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8',
+        'Accept-Encoding': 'gzip, deflate, br',
         'Referer': 'https://www.google.com/',
         'Connection': 'keep-alive'
       },
+      network: { httpVersion: '1.1' },
       timing: { min: 1000, max: 3000 }
     };
+
+    this.transport = this.createTransport();
+  }
+
+  private createTransport(): Transport {
+    return new Transport({
+      httpVersion: this.dna.network.httpVersion,
+      tunnel: proxyTunnel(this.proxy, this.requestTimeout)
+    });
+  }
+
+  /** Reads the proxy chain from settings and verifies it before any traffic is sent. */
+  private async loadProxyConfig() {
+    const config = await new ConfigManager(prisma).getAll();
+    this.proxy = resolveProxySettings(config as unknown as Record<string, unknown>);
+    this.requestTimeout = parseInt(String(config.requestTimeout), 10) || 15000;
+
+    this.transport.close();
+    this.transport = this.createTransport();
+
+    this.log('Proxy: ' + describeProxy(this.proxy), 'info');
+    await checkProxy(this.proxy, this.baseUrl, this.requestTimeout);
+    this.log('Proxy health check passed', 'success');
+  }
+
+  private async loadNetworkDna() {
+    const snapshot = await prisma.dnaSnapshot.findFirst({
+      where: { targetId: this.targetId, isActive: true }
+    });
+    if (!snapshot) return;
+
+    try {
+      const httpVersion = JSON.parse(snapshot.dnaJson)?.network?.httpVersion;
+      if (httpVersion && httpVersion !== this.dna.network.httpVersion) {
+        this.dna.network.httpVersion = httpVersion;
+        this.transport.close();
+        this.transport = this.createTransport();
+      }
+    } catch (e) {
+      this.log('Failed to read DNA snapshot: ' + e, 'error');
+    }
+    this.log('Transport: HTTP/' + this.transport.version, 'info');
   }
 
   private log(message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info') {
@@ -68,114 +217,590 @@ class AutonomousCrawler {
     console.log('[' + timestamp + '] ' + icons[type] + ' ' + message);
   }
 
-  private async makeRequest(path: string = '/', method: string = 'GET', postData?: string, customHeaders?: any): Promise<CrawlResult> {
+  // Probes (robots, sitemaps, specs, guessed paths) are logged but kept out of the site map
+  private async makeRequest(path: string = '/', method: string = 'GET', postData?: string, customHeaders?: any, probe: boolean = false): Promise<CrawlResult> {
     const startTime = Date.now();
-    
-    return new Promise((resolve) => {
-      const url = new URL(path, this.baseUrl);
-      
-      const headers: any = {
-        'Host': url.hostname,
-        'User-Agent': this.dna.userAgent,
-        'Cookie': this.cookies.join('; '),
-        ...this.dna.headers,
-        ...customHeaders
-      };
+    const chain: RedirectHop[] = [];
+    let url = new URL(path, this.baseUrl);
+    let currentMethod = method;
+    let body = postData;
+    let extraHeaders = { ...customHeaders };
+    let parentRequestId: string | undefined;
+    let previous: CrawlResult | undefined;
+
+    for (let hop = 0; ; hop++) {
+      const decision = this.scope.check(url.toString());
+      if (!decision.inScope) {
+        this.blockOutOfScope(url.toString(), decision.reason);
+        if (!previous) {
+          return { success: false, error: 'Out of scope: ' + decision.reason, outOfScope: true, responseTime: 0 };
+        }
+        return {
+          ...previous,
+          error: 'Redirect to out-of-scope URL refused: ' + url,
+          redirectRefused: true,
+          finalUrl: chain[chain.length - 1].url,
+          redirectChain: chain,
+          responseTime: Date.now() - startTime
+        };
+      }
+
+      const { result, requestLogId } = await this.sendRequest(url, currentMethod, body, extraHeaders, parentRequestId, hop, probe);
+      parentRequestId = parentRequestId || requestLogId;
+
+      const location = result.headers?.location;
+      if (!this.followRedirects || !location || !REDIRECT_STATUSES.includes(result.statusCode || 0)) {
+        return { ...result, finalUrl: url.toString(), redirectChain: chain, responseTime: Date.now() - startTime };
+      }
+
+      if (hop >= this.maxRedirects) {
+        this.log('Redirect limit (' + this.maxRedirects + ') reached at ' + redactUrl(url.toString(), this.authStrategy), 'warning');
+        return { ...result, error: 'Too many redirects', finalUrl: url.toString(), redirectChain: chain, responseTime: Date.now() - startTime };
+      }
+
+      const next = new URL(location, url);
+      // A GET login form carries the credentials in the URL, and some servers echo them into Location
+      const logged = { url: redactUrl(url.toString(), this.authStrategy), location: redactUrl(next.toString(), this.authStrategy) };
+      chain.push({ ...logged, method: currentMethod, statusCode: result.statusCode! });
+      this.log('  ' + result.statusCode + ' -> ' + logged.location, 'info');
 
-      if (postData) {
+      // 303 always switches to GET; 301/302 do so for POST as browsers do; 307/308 keep method and body
+      if ((result.statusCode === 303 && currentMethod !== 'HEAD') ||
+          ((result.statusCode === 301 || result.statusCode === 302) && currentMethod === 'POST')) {
+        currentMethod = 'GET';
+        body = undefined;
+        extraHeaders = Object.fromEntries(Object.entries(extraHeaders).filter(([name]) => name.toLowerCase() !== 'content-type'));
+      }
+
+      // Never leak credentials to another origin
+      if (next.origin !== url.origin) {
+        extraHeaders = Object.fromEntries(Object.entries(extraHeaders).filter(([name]) => name.toLowerCase() !== 'authorization'));
+      }
+
+      previous = result;
+      url = next;
+    }
+  }
+
+  private async sendRequest(url: URL, method: string, postData: string | undefined, customHeaders: any, parentRequestId: string | undefined, hop: number, probe: boolean): Promise<{ result: CrawlResult; requestLogId?: string }> {
+    const headers: any = {
+      'Host': url.host,
+      'User-Agent': this.dna.userAgent,
+      ...this.dna.headers,
+      // Credentials belong to the target's origin, not to every host the scope allows
+      ...(url.origin === new URL(this.baseUrl).origin ? this.authHeaders : {}),
+      ...customHeaders
+    };
+    const cookieHeader = this.jar.getCookieHeader(url.toString());
+    if (cookieHeader) {
+      headers['Cookie'] = cookieHeader;
+    }
+
+    if (postData) {
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
         headers['Content-Type'] = 'application/x-www-form-urlencoded';
-        headers['Content-Length'] = Buffer.byteLength(postData);
       }
-      
-      const options: https.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port || 443,
-        path: url.pathname + url.search,
-        method,
-        agent: this.agent,
-        headers,
-        timeout: 15000
+      headers['Content-Length'] = Buffer.byteLength(postData);
+    }
+
+    this.parameters.observe(observeRequest(method, url.toString(), headers, postData));
+
+    let result: CrawlResult;
+    const release = await hostRateLimiter.acquire(url.host);
+    const sentAt = Date.now();
+    this.requestsSent++;
+    try {
+      const res = await this.transport.request({ url, method, headers, body: postData, timeoutMs: this.requestTimeout, maxBodyBytes: this.maxBodyBytes });
+      const responseTime = Date.now() - sentAt;
+
+      if (res.statusCode === 429 || res.statusCode === 503) {
+        const retryAfter = parseRetryAfter(res.headers['retry-after']);
+        if (retryAfter !== undefined) {
+          hostRateLimiter.backoff(url.host, retryAfter);
+          this.log(url.host + ' returned ' + res.statusCode + ', holding requests for ' + Math.ceil(hostRateLimiter.blockedFor(url.host) / 1000) + 's (Retry-After)', 'warning');
+        }
+      }
+
+      const setCookies = res.headers['set-cookie'];
+      this.parameters.observe(observeSetCookies(method, url.toString(), setCookies));
+      if (setCookies) {
+        this.jar.setCookies(setCookies, url.toString());
+        await this.saveSession();
+      }
+
+      if (res.truncated) {
+        this.log('Response exceeded ' + this.maxBodyBytes + ' bytes, download aborted: ' + url, 'warning');
+      }
+
+      const decoded = decodeBody(res.headers, res.body, this.maxBodyBytes);
+      if (decoded.error) {
+        this.log(decoded.error + ' (' + url + ')', 'warning');
+      }
+
+      const data = decoded.text || '';
+      const hasChallenge = 
+        res.statusCode === 403 ||
+        res.statusCode === 429 ||
+        data.toLowerCase().includes('challenge') ||
+        data.toLowerCase().includes('captcha');
+
+      result = {
+        success: res.statusCode === 200,
+        statusCode: res.statusCode,
+        headers: res.headers,
+        body: data,
+        rawBody: decoded.bytes,
+        binary: decoded.binary,
+        truncated: res.truncated,
+        hasChallenge,
+        responseTime,
+        cookies: setCookies
       };
+    } catch (err: any) {
+      result = { success: false, error: err.message, responseTime: Date.now() - sentAt };
+    } finally {
+      release();
+    }
 
-      const req = https.request(options, (res) => {
-        let data = '';
-        const responseTime = Date.now() - startTime;
-        
-        const setCookies = res.headers['set-cookie'];
-        if (setCookies) {
-          this.cookies = [...this.cookies, ...setCookies];
+    const requestLogId = await this.logRequest(method, url.toString(), headers, postData, result, parentRequestId, hop, probe);
+    await this.inspectResponse(redactUrl(url.toString(), this.authStrategy), result, requestLogId);
+    return { result: { ...result, requestLogId }, requestLogId };
+  }
+
+  private async logRequest(method: string, url: string, headers: any, body: string | undefined, result: CrawlResult, parentRequestId?: string, redirectHop: number = 0, probe: boolean = false): Promise<string | undefined> {
+    const wasBlocked = result.statusCode === 403 || result.statusCode === 429;
+    let preview: string | undefined;
+    if (result.binary) {
+      preview = '[binary ' + (result.headers?.['content-type'] || 'unknown') + ', ' + (result.rawBody?.length || 0) + ' bytes]';
+    } else if (result.body) {
+      preview = result.body.slice(0, PREVIEW_LENGTH);
+    }
+
+    // The log is served by the API: credentials, the login password and session tokens never go in
+    const redacted = redactRequest(headers, body, this.authStrategy);
+    const response = redactResponse(result.headers || {}, preview, this.authStrategy);
+
+    try {
+      const log = await prisma.requestLog.create({
+        data: {
+          targetId: this.targetId,
+          parentRequestId,
+          redirectHop,
+          probe,
+          method,
+          url: redactUrl(url, this.authStrategy),
+          headers: JSON.stringify(redacted.headers),
+          body: redacted.body,
+          responseStatus: result.statusCode,
+          responseHeaders: result.headers ? JSON.stringify(response.headers) : undefined,
+          responseBodyPreview: response.body,
+          wasBlocked,
+          blockReason: result.statusCode === 403 ? 'forbidden' : result.statusCode === 429 ? 'rate_limited' : undefined,
+          challengeDetected: !!result.hasChallenge,
+          challengeType: result.hasChallenge ? this.identifyChallenge(result.body || '') : undefined,
+          timingMs: result.responseTime
         }
-        
-        res.on('data', chunk => data += chunk);
-        res.on('end', () => {
-          const hasChallenge = 
-            res.statusCode === 403 ||
-            res.statusCode === 429 ||
-            data.toLowerCase().includes('challenge') ||
-            data.toLowerCase().includes('captcha');
-
-          resolve({
-            success: res.statusCode === 200,
-            statusCode: res.statusCode,
-            headers: res.headers,
-            body: data,
-            hasChallenge,
-            responseTime,
-            cookies: setCookies
-          });
+      });
+      return log.id;
+    } catch (e) {
+      this.log('Failed to log request: ' + e, 'error');
+      return undefined;
+    }
+  }
+
+  /** Passive checks on every response: security headers and cookie flags, then sensitive data in the body. */
+  private async inspectResponse(url: string, result: CrawlResult, requestLogId?: string) {
+    if (!result.headers) return;
+    await this.report([
+      ...issueFindings(auditResponse(url, result.headers), requestLogId),
+      ...sensitiveFindings(scanResponse(url, result.headers, result.binary ? undefined : result.body), requestLogId)
+    ]);
+  }
+
+  /** Reports findings once per crawl; the Finding table deduplicates across crawls. */
+  private async report(findings: ReportedFinding[]) {
+    const fresh = findings.filter(f => !this.reportedFindings.has(f.detector + ' ' + f.key));
+    if (fresh.length === 0) return;
+
+    for (const finding of fresh) this.reportedFindings.add(finding.detector + ' ' + finding.key);
+    try {
+      for (const finding of await reportFindings(prisma, this.targetId, fresh)) {
+        this.log('Finding: ' + finding.title + ' [' + finding.severity + ']', 'warning');
+      }
+    } catch (e) {
+      this.log('Failed to report findings: ' + e, 'error');
+    }
+  }
+
+  private identifyChallenge(body: string): string {
+    if (body.includes('altcha')) return 'altcha';
+    if (body.includes('recaptcha')) return 'recaptcha';
+    if (body.includes('hcaptcha')) return 'hcaptcha';
+    if (body.includes('cf-turnstile')) return 'cloudflare_turnstile';
+    return 'unknown';
+  }
+
+  private async loadSession() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { sessionCookies: true, isAuthenticated: true, authEndpoint: true }
+    });
+    this.jar = CookieJar.deserialize(target?.sessionCookies, this.baseUrl);
+    if (this.jar.size > 0) {
+      this.log('Restored ' + this.jar.size + ' cookies from previous session', 'info');
+    }
+    this.authenticated = target?.isAuthenticated ?? false;
+    this.loginPath = target?.authEndpoint || undefined;
+  }
+
+  private async loadRateModel() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { learnedRateLimit: true }
+    });
+    this.rateModel = parseLearnedRateLimit(target?.learnedRateLimit);
+    if (!this.rateModel) {
+      const history = await prisma.requestLog.findMany({
+        where: { targetId: this.targetId },
+        select: { createdAt: true, responseStatus: true, wasBlocked: true, challengeDetected: true },
+        orderBy: { createdAt: 'desc' },
+        take: 500
+      });
+      this.rateModel = estimateRateLimit(history);
+      await this.saveRateModel();
+    }
+    this.log('Learned rate limit: ' + this.rateModel.requestsPerSecond.toFixed(2) + ' req/s (' + this.rateModel.violations + ' violations seen)', 'info');
+    this.applyRateLimit();
+  }
+
+  private async saveRateModel() {
+    try {
+      await prisma.target.update({
+        where: { id: this.targetId },
+        data: { learnedRateLimit: JSON.stringify(this.rateModel) }
+      });
+    } catch (e) {
+      this.log('Failed to save rate limit: ' + e, 'error');
+    }
+  }
+
+  /** The host limit is the green-light ceiling or the learned rate, whichever is slower. */
+  private applyRateLimit() {
+    const limit = rateLimitFor(this.greenLight);
+    hostRateLimiter.setLimit(new URL(this.baseUrl).host, {
+      requestsPerSecond: Math.min(limit.requestsPerSecond, this.rateModel?.requestsPerSecond ?? Infinity),
+      maxConcurrent: limit.maxConcurrent
+    });
+  }
+
+  private async updateRateModel(result: CrawlResult) {
+    if (!this.rateModel || result.statusCode === undefined) return;
+    const previous = this.rateModel.requestsPerSecond;
+
+    if (isViolation({ responseStatus: result.statusCode, challengeDetected: result.hasChallenge })) {
+      this.rateModel = recordViolation(this.rateModel);
+      this.log('Backing off to ' + this.rateModel.requestsPerSecond.toFixed(2) + ' req/s', 'warning');
+    } else {
+      this.rateModel = recordSuccess(this.rateModel);
+      if (this.rateModel.requestsPerSecond > previous) {
+        this.log('Probing up to ' + this.rateModel.requestsPerSecond.toFixed(2) + ' req/s', 'info');
+      }
+    }
+
+    if (this.rateModel.requestsPerSecond !== previous) {
+      this.applyRateLimit();
+      await this.saveRateModel();
+    }
+  }
+
+  private async loadParameters() {
+    const stored = await prisma.parameter.findMany({ where: { targetId: this.targetId } });
+    this.parameters = new ParameterInventory(stored.map(p => ({
+      name: p.name,
+      location: p.location as ParameterLocation,
+      inferredType: p.inferredType as ParameterType,
+      occurrences: p.occurrences,
+      examples: p.examples ? JSON.parse(p.examples) : [],
+      endpoints: p.endpoints ? JSON.parse(p.endpoints) : []
+    })));
+  }
+
+  private async saveParameters() {
+    try {
+      for (const record of this.parameters.dirty()) {
+        const data = {
+          inferredType: record.inferredType,
+          occurrences: record.occurrences,
+          examples: JSON.stringify(record.examples),
+          endpoints: JSON.stringify(record.endpoints)
+        };
+        await prisma.parameter.upsert({
+          where: { targetId_location_name: { targetId: this.targetId, location: record.location, name: record.name } },
+          update: data,
+          create: { targetId: this.targetId, name: record.name, location: record.location, ...data }
         });
+      }
+    } catch (e) {
+      this.log('Failed to save parameters: ' + e, 'error');
+    }
+  }
+
+  private async loadTechnologies() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { technologies: true }
+    });
+    this.technologies = new TechnologyProfile(parseTechnologies(target?.technologies));
+  }
+
+  private async saveTechnologies() {
+    if (!this.technologies.dirty()) return;
+    try {
+      await prisma.target.update({
+        where: { id: this.targetId },
+        data: { technologies: JSON.stringify(this.technologies.list()) }
       });
+    } catch (e) {
+      this.log('Failed to save technologies: ' + e, 'error');
+    }
+  }
+
+  /** Matches a response against the signature database; CDNs and WAFs in front of the target are learning events. */
+  private async fingerprint(input: FingerprintInput) {
+    for (const tech of this.technologies.observe(detectTechnologies(input))) {
+      this.log('Detected ' + tech.name + (tech.version ? ' ' + tech.version : '') + ' (' + tech.category + ', ' + tech.confidence + '% confidence)', 'success');
+      if (tech.category === 'cdn' || tech.category === 'waf') {
+        await this.recordEvent('fingerprint', tech.name + ' detected', tech.category.toUpperCase() + ' identified from ' + tech.evidence.map(e => e.source + ' ' + e.match).join(', '), 0);
+      }
+    }
+    await this.saveTechnologies();
+  }
+
+  private async fingerprintFavicon() {
+    const url = new URL('/favicon.ico', this.baseUrl).toString();
+    if (!this.isAllowedByRobots(url)) return;
+    const result = await this.makeRequest(url, 'GET', undefined, undefined, true);
+    if (result.statusCode !== 200 || !result.rawBody?.length || /html/i.test(String(result.headers?.['content-type'] || ''))) return;
+    await this.fingerprint({ faviconHash: faviconHash(result.rawBody) });
+  }
+
+  /** Requests .git and .env files; inspectResponse decides from their content whether they are exposed. */
+  private async probeArtifacts() {
+    for (const path of ARTIFACT_PATHS) {
+      const url = new URL(path, this.baseUrl).toString();
+      if (this.isAllowedByRobots(url)) await this.makeRequest(url, 'GET', undefined, undefined, true);
+    }
+  }
 
-      req.on('error', (err) => {
-        resolve({ success: false, error: err.message, responseTime: Date.now() - startTime });
+  private async setAuthenticated(value: boolean) {
+    this.authenticated = value;
+    try {
+      await prisma.target.update({
+        where: { id: this.targetId },
+        data: { isAuthenticated: value }
       });
+    } catch (e) {
+      this.log('Failed to update auth state: ' + e, 'error');
+    }
+  }
+
+  private sessionProblem(url: string, result: CrawlResult): string | undefined {
+    const present = this.jar.getCookies(this.baseUrl).map(c => c.name);
+    return detectLoggedOut({
+      statusCode: result.statusCode,
+      requestUrl: new URL(url, this.baseUrl).toString(),
+      finalUrl: result.finalUrl,
+      redirectLocations: (result.redirectChain || []).map(hop => hop.location),
+      body: result.body,
+      loginPath: this.loginPath,
+      loggedOutText: this.authConfig?.loggedOutText,
+      missingCookies: this.sessionCookieNames.filter(name => !present.includes(name))
+    });
+  }
+
+  /**
+   * makeRequest for crawl traffic: when an authenticated session turns out
+   * to be dead, logs in again and retries the request once.
+   */
+  private async fetchAuthenticated(url: string, method: string = 'GET', postData?: string, customHeaders?: any): Promise<CrawlResult> {
+    const result = await this.makeRequest(url, method, postData, customHeaders);
+    if (!this.authenticated) return result;
 
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({ success: false, error: 'Timeout', responseTime: Date.now() - startTime });
+    const problem = this.sessionProblem(url, result);
+    if (!problem) return result;
+
+    this.log('Session expired: ' + problem, 'warning');
+    await this.setAuthenticated(false);
+    await this.recordEvent('session', 'Session expired', 'Logged out while requesting ' + url + ': ' + problem, -5);
+
+    if (!this.authConfig || this.reauthFailures >= MAX_REAUTH_FAILURES) return result;
+
+    if (await this.authenticate()) {
+      this.reauthFailures = 0;
+      await this.recordEvent('session', 'Re-authenticated', 'Session restored, retrying ' + method + ' ' + url, 0);
+      return this.makeRequest(url, method, postData, customHeaders);
+    }
+
+    this.reauthFailures++;
+    if (this.reauthFailures >= MAX_REAUTH_FAILURES) {
+      this.log('Re-authentication failed ' + MAX_REAUTH_FAILURES + ' times, continuing unauthenticated', 'error');
+    }
+    return result;
+  }
+
+  private async saveSession() {
+    try {
+      await prisma.target.update({
+        where: { id: this.targetId },
+        data: { sessionCookies: this.jar.serialize() }
       });
+    } catch (e) {
+      this.log('Failed to persist cookies: ' + e, 'error');
+    }
+  }
+
+  private blockOutOfScope(url: string, reason?: string) {
+    this.scope.recordBlocked(url);
+    this.log('Blocked out-of-scope request: ' + url + ' (' + reason + ')', 'warning');
+    prisma.target.update({
+      where: { id: this.targetId },
+      data: { outOfScopeBlocked: { increment: 1 } }
+    }).catch((e: unknown) => this.log('Failed to count blocked request: ' + e, 'error'));
+  }
 
-      if (postData) req.write(postData);
-      req.end();
+  private async loadScope() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { scope: true }
     });
+    this.scope = ScopeEngine.fromJson(this.baseUrl, target?.scope);
+    if (target?.scope) {
+      this.log('Scope loaded from target configuration', 'info');
+    }
   }
 
-  private async authenticate(): Promise<boolean> {
-    if (!this.authConfig) return false;
-    
-    this.log('Attempting authentication...', 'info');
-    
-    let authEndpoint = this.authConfig.endpoint;
-    if (!authEndpoint) {
-      const commonPaths = ['/login', '/signin', '/auth'];
-      for (const path of commonPaths) {
-        const check = await this.makeRequest(path);
-        if (check.success && check.body?.toLowerCase().includes('login')) {
-          authEndpoint = path;
-          this.log('Found login page: ' + path, 'success');
-          break;
+  private async findLoginPage(auth: LoginStrategyConfig): Promise<{ url: string; body: string } | null> {
+    for (const path of loginPageCandidates(auth)) {
+      const page = await this.makeRequest(path);
+      if (!page.success || !page.body) continue;
+      if (auth.endpoint || findLoginForm(parseForms(page.body, page.finalUrl!))) {
+        return { url: page.finalUrl!, body: page.body };
+      }
+    }
+    return null;
+  }
+
+  private async submitLogin(auth: LoginStrategyConfig): Promise<{ loginUrl: string; result: CrawlResult } | null> {
+    let request: LoginRequest;
+    let pageBody = '';
+    try {
+      if (auth.type === 'json') {
+        // Prime the session so CSRF cookies exist before posting
+        pageBody = (await this.makeRequest('/')).body || '';
+        request = prepareJsonLogin(auth, this.baseUrl);
+      } else {
+        const page = await this.findLoginPage(auth);
+        if (!page) {
+          this.log('Could not find login page', 'error');
+          return null;
         }
+        pageBody = page.body;
+        request = prepareFormLogin(auth, page);
+        this.log('Found login form on ' + page.url + ' -> ' + request.method + ' ' + request.url.split('?')[0], 'success');
       }
+    } catch (e) {
+      if (!(e instanceof AuthError)) throw e;
+      this.log(e.message, 'error');
+      return null;
     }
-    
-    if (!authEndpoint) {
-      this.log('Could not find login endpoint', 'error');
-      return false;
+
+    const headers = { ...request.headers, ...csrfHeaders(pageBody, this.jar.getCookies(request.url)) };
+    const result = await this.makeRequest(request.url, request.method, request.body, headers);
+    return { loginUrl: request.loginUrl, result };
+  }
+
+  /**
+   * Applies the target's auth strategy. Static strategies (basic, bearer,
+   * header, cookie) take effect immediately; form and JSON logins run once
+   * the target reaches green light.
+   */
+  private async loadAuthStrategy() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { authStrategy: true }
+    });
+    if (target?.authStrategy) {
+      try {
+        this.authStrategy = parseAuthStrategy(target.authStrategy);
+      } catch (e) {
+        this.log('Ignoring invalid auth strategy: ' + e, 'error');
+      }
     }
+    if (!this.authStrategy) return;
+
+    if (isLoginStrategy(this.authStrategy)) {
+      this.authConfig = this.authStrategy;
+      // The login POST goes through the parameter inventory like any other request
+      this.parameters.protect(this.authConfig.passwordField ? [this.authConfig.passwordField] : [], [this.authConfig.password]);
+      if (this.authConfig.sessionCookie) {
+        this.sessionCookieNames = [this.authConfig.sessionCookie];
+      }
+      this.log('Auth strategy: ' + this.authStrategy.type + ' login as ' + this.authStrategy.username, 'info');
+      return;
+    }
+
+    this.authHeaders = authHeaders(this.authStrategy);
+    const seeded = seedCookies(this.authStrategy, this.jar, this.baseUrl);
+    if (seeded > 0) await this.saveSession();
+    this.log('Auth strategy: ' + this.authStrategy.type + (seeded > 0 ? ' (' + seeded + ' cookies imported)' : ''), 'info');
+
+    if (!this.authenticated) {
+      await this.setAuthenticated(true);
+      await this.recordEvent('milestone', 'Credentials applied', 'Using ' + this.authStrategy.type + ' auth strategy', 0);
+    }
+  }
+
+  private async authenticate(): Promise<boolean> {
+    if (!this.authConfig) return false;
+    
+    this.log('Attempting authentication (' + this.authConfig.type + ')...', 'info');
     
-    const loginData = 'username=' + encodeURIComponent(this.authConfig.username) + '&password=' + encodeURIComponent(this.authConfig.password);
-    const result = await this.makeRequest(authEndpoint, 'POST', loginData, { 'Referer': this.baseUrl + authEndpoint });
+    const cookiesBefore = new Set(this.jar.all().map(c => c.name + '=' + c.value));
+    const submission = await this.submitLogin(this.authConfig);
+    if (!submission) return false;
+    const { loginUrl, result } = submission;
+
+    const token = result.body ? extractToken(result.body) : undefined;
+    const cookies = this.jar.all();
+    const verdict = evaluateLogin({
+      statusCode: result.statusCode,
+      loginUrl,
+      finalUrl: result.finalUrl || loginUrl,
+      body: result.body || '',
+      cookieNames: cookies.map(c => c.name),
+      newCookies: cookies.filter(c => !cookiesBefore.has(c.name + '=' + c.value)).length,
+      tokenIssued: Boolean(token)
+    }, this.authConfig.successIndicators);
     
-    if (result.success && !result.hasChallenge) {
+    if (verdict.success && !result.hasChallenge) {
       this.log('Authentication successful!', 'success');
+      if (token) {
+        this.authHeaders = { 'Authorization': 'Bearer ' + token };
+        this.log('Bearer token captured from login response', 'info');
+      }
+      this.authenticated = true;
+      this.loginPath = new URL(loginUrl).pathname;
+      this.sessionCookieNames = this.authConfig.sessionCookie
+        ? [this.authConfig.sessionCookie]
+        : cookies.filter(c => !cookiesBefore.has(c.name + '=' + c.value) && /sess|auth|token|sid|login|remember/i.test(c.name)).map(c => c.name);
       
       await prisma.target.update({
         where: { id: this.targetId },
         data: {
           isAuthenticated: true,
-          authEndpoint,
+          authEndpoint: this.loginPath,
           authUsername: this.authConfig.username,
-          sessionCookies: JSON.stringify(this.cookies)
+          sessionCookies: this.jar.serialize()
         }
       });
       
@@ -183,7 +808,7 @@ class AutonomousCrawler {
       
       return true;
     } else {
-      this.log('Authentication failed: ' + (result.statusCode || result.error), 'error');
+      this.log('Authentication failed: ' + (result.error || verdict.reasons.join('; ') || result.statusCode), 'error');
       return false;
     }
   }
@@ -216,7 +841,199 @@ class AutonomousCrawler {
     }
   }
 
+  private async enqueue(url: string, depth: number, referrer?: string): Promise<boolean> {
+    const entry = this.frontier.add(url, depth, referrer);
+    if (!entry) return false;
+
+    try {
+      await prisma.discoveredUrl.upsert({
+        where: { targetId_url: { targetId: this.targetId, url: entry.url } },
+        update: {},
+        create: {
+          targetId: this.targetId,
+          url: entry.url,
+          depth: entry.depth,
+          referrer: entry.referrer
+        }
+      });
+    } catch (e) {
+      this.log('Failed to persist URL: ' + e, 'error');
+    }
+    return true;
+  }
+
+  private async updateUrl(url: string, data: { status: string; responseStatus?: number; contentType?: string; crawledAt?: Date; contentHash?: string; duplicateOf?: string }) {
+    try {
+      await prisma.discoveredUrl.update({
+        where: { targetId_url: { targetId: this.targetId, url } },
+        data
+      });
+    } catch (e) {
+      this.log('Failed to update URL: ' + e, 'error');
+    }
+  }
+
+  private async markCrawled(entry: FrontierEntry, result: CrawlResult, verdict: ContentVerdict = {}) {
+    await this.updateUrl(entry.url, {
+      status: verdict.status || (result.success ? 'crawled' : result.outOfScope ? 'out_of_scope' : result.redirectRefused ? 'redirect_refused' : result.hasChallenge ? 'blocked' : 'failed'),
+      responseStatus: result.statusCode,
+      contentType: result.headers?.['content-type'],
+      crawledAt: new Date(),
+      contentHash: verdict.contentHash,
+      duplicateOf: verdict.duplicateOf
+    });
+  }
+
+  /**
+   * Requests a few paths that cannot exist. If the target answers them with
+   * a 2xx, those answers become the template soft-404 pages are matched on.
+   */
+  private async learnSoft404() {
+    this.soft404 = await Soft404Detector.learn(this.baseUrl, async (url) => {
+      if (!this.isAllowedByRobots(url)) return {};
+      const result = await this.makeRequest(url, 'GET', undefined, undefined, true);
+      return { statusCode: result.statusCode, finalUrl: result.finalUrl, body: result.body };
+    });
+    if (this.soft404.active) {
+      this.log('Soft-404: target answers missing pages with ' + this.soft404.baselines.map(b => b.statusCode).join('/') + ', matching responses will be ignored', 'warning');
+    }
+  }
+
+  /** Flags soft-404 pages and pages whose content was already crawled under another URL. */
+  private async classifyContent(entry: FrontierEntry, result: CrawlResult): Promise<ContentVerdict> {
+    if (!result.success) return {};
+    const hash = contentHash(result.binary && result.rawBody ? result.rawBody : result.body || '', result.finalUrl || entry.url);
+
+    if (this.soft404?.matches(entry.url, result)) {
+      return { contentHash: hash, status: 'soft_404' };
+    }
+
+    const original = await prisma.discoveredUrl.findFirst({
+      where: { targetId: this.targetId, contentHash: hash, status: 'crawled', url: { not: entry.url } },
+      select: { url: true }
+    });
+    return original ? { contentHash: hash, status: 'duplicate', duplicateOf: original.url } : { contentHash: hash };
+  }
+
+  private async discover() {
+    const target = await prisma.target.findUnique({
+      where: { id: this.targetId },
+      select: { ignoreRobots: true }
+    });
+    this.ignoreRobots = target?.ignoreRobots ?? false;
+
+    const discovery = await discoverSite(this.baseUrl, async (url) => {
+      const result = await this.makeRequest(url, 'GET', undefined, undefined, true);
+      return { statusCode: result.statusCode, body: result.rawBody };
+    }, this.dna.userAgent);
+    this.robots = discovery.robots;
+
+    if (this.robots) {
+      const delay = this.robots.crawlDelay !== undefined ? this.robots.crawlDelay + 's' : 'none';
+      this.log('robots.txt: ' + this.robots.disallowCount + ' disallow rules, crawl-delay ' + delay, 'info');
+      if (this.ignoreRobots) {
+        await this.recordEvent('robots', 'robots.txt override active', 'Per-target override: ' + this.robots.disallowCount + ' disallow rules and crawl-delay ' + delay + ' ignored', 0);
+      } else {
+        await this.recordEvent('robots', 'robots.txt honored', this.robots.disallowCount + ' disallow rules and crawl-delay ' + delay + ' enforced', 0);
+      }
+    }
+
+    let seeded = 0;
+    for (const url of discovery.urls) {
+      if (!this.scope.isInScope(url)) continue;
+      if (await this.enqueue(url, 0)) seeded++;
+    }
+    if (discovery.sitemaps.length > 0) {
+      this.log('Sitemaps: ' + discovery.sitemaps.length + ' fetched, ' + seeded + ' URLs seeded', 'info');
+    }
+
+    await this.discoverApiSpecs();
+    // A resumed job already fingerprinted the favicon and probed for artifacts when it first started
+    if (this.iteration === 0) {
+      await this.fingerprintFavicon();
+      await this.probeArtifacts();
+    }
+  }
+
+  private async discoverApiSpecs() {
+    // A resumed job already probed when it first started
+    if (this.iteration === 0) {
+      const specs = await discoverApiSpecs(this.baseUrl, async (url, method, body, headers) => {
+        if (!this.isAllowedByRobots(url)) return {};
+        const result = await this.makeRequest(url, method, body, headers, true);
+        return { statusCode: result.statusCode, body: result.body };
+      });
+      for (const spec of specs) {
+        this.log('API spec at ' + spec.source + ': ' + spec.format + ', ' + spec.operations.length + ' operations', 'success');
+        try {
+          await saveDiscoveries(prisma, this.targetId, specDiscoveries(spec, spec.source), spec.source);
+        } catch (e) {
+          this.log('Failed to save API spec: ' + e, 'error');
+        }
+        await this.recordEvent('discovery', 'API specification found', spec.format + ' at ' + spec.source + ' documents ' + spec.operations.length + ' operations', 10);
+      }
+    }
+
+    // Documented operations seed the frontier, whether probed or imported through the API
+    const documented = await prisma.discovery.findMany({
+      where: { targetId: this.targetId, type: 'operation' },
+      select: { details: true }
+    });
+    const operations: ApiOperation[] = documented.filter(d => d.details).map(d => JSON.parse(d.details!));
+    let seeded = 0;
+    for (const url of crawlableOperations(operations)) {
+      if (!this.scope.isInScope(url)) continue;
+      if (await this.enqueue(url, 1, this.baseUrl)) seeded++;
+    }
+    if (seeded > 0) {
+      this.log('API specs: ' + seeded + ' documented endpoints queued', 'info');
+    }
+  }
+
+  private isAllowedByRobots(url: string): boolean {
+    if (this.ignoreRobots || !this.robots) return true;
+    const parsed = new URL(url);
+    return this.robots.isAllowed(parsed.pathname + parsed.search);
+  }
+
+  /** Discoveries in an HTML page or a JavaScript file; null for anything else. */
+  private analyzeResponse(entry: FrontierEntry, result: CrawlResult): ExtractedDiscovery[] | null {
+    const contentType = String(result.headers?.['content-type'] || '');
+    // Relative links resolve against where redirects actually landed
+    const pageUrl = result.finalUrl || entry.url;
+    if (!result.body) return null;
+    if (contentType.includes('html')) return extractDiscoveries(result.body, pageUrl);
+    if (isJavaScript(contentType, pageUrl)) return analyzeScript(result.body, pageUrl, this.baseUrl);
+    return null;
+  }
+
+  private async expandFrontier(entry: FrontierEntry, result: CrawlResult, discoveries: ExtractedDiscovery[]): Promise<number> {
+    const pageUrl = result.finalUrl || entry.url;
+    const links = String(result.headers?.['content-type'] || '').includes('html') ? extractLinks(result.body!, pageUrl) : [];
+    // Script sources are fetched so their routes can be read
+    const scripts = discoveries.filter(d => d.type === 'script').map(d => d.value);
+
+    let added = 0;
+    for (const link of [...links, ...scripts, ...crawlableEndpoints(discoveries)]) {
+      if (!this.scope.isInScope(link)) continue;
+      if (await this.enqueue(link, entry.depth + 1, entry.url)) added++;
+    }
+    return added;
+  }
+
+  private async recordDiscoveries(entry: FrontierEntry, result: CrawlResult, found: ExtractedDiscovery[]): Promise<number> {
+    try {
+      return (await saveDiscoveries(prisma, this.targetId, found, result.finalUrl || entry.url, result.requestLogId)).length;
+    } catch (e) {
+      this.log('Failed to save discoveries: ' + e, 'error');
+      return 0;
+    }
+  }
+
   private async updateStatus(status: string, greenLight: string) {
+    // The green-light status sets how hard every job may hit this host
+    this.greenLight = greenLight;
+    this.applyRateLimit();
     try {
       await prisma.target.update({
         where: { id: this.targetId },
@@ -238,73 +1055,183 @@ class AutonomousCrawler {
   private randomDelay() {
     const min = this.dna.timing?.min || 1000;
     const max = this.dna.timing?.max || 3000;
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    const delay = Math.floor(Math.random() * (max - min + 1)) + min;
+    const crawlDelay = !this.ignoreRobots && this.robots?.crawlDelay ? this.robots.crawlDelay * 1000 : 0;
+    return Math.max(delay, crawlDelay);
   }
 
   async start() {
     this.isRunning = true;
     this.log('Starting autonomous crawl on ' + this.baseUrl, 'info');
-    this.log('Proxy chain: Crawler -> GOST (1080) -> Caido (8080) -> Target', 'info');
     
+    try {
+      await this.loadProxyConfig();
+    } catch (e) {
+      this.isRunning = false;
+      this.transport.close();
+      if (e instanceof ProxyError) this.log(e.message, 'error');
+      throw e;
+    }
+
+    try {
+      await this.crawl();
+    } catch (e) {
+      this.lastError = String(e);
+      this.log('Crawl aborted: ' + e, 'error');
+      throw e;
+    } finally {
+      this.isRunning = false;
+      this.transport.close();
+    }
+  }
+
+  private async crawl() {
     await this.updateStatus('learning', 'YELLOW');
+    await this.loadScope();
+    await this.loadNetworkDna();
+    await this.loadSession();
+    await this.loadRateModel();
+    await this.loadParameters();
+    await this.loadTechnologies();
+    await this.loadAuthStrategy();
+    if (this.iteration > 0) {
+      this.log('Resuming at iteration ' + this.iteration + ' with ' + this.frontier.size + ' queued URLs', 'info');
+    }
+    await this.enqueue(this.baseUrl, 0);
+    await this.discover();
+    await this.learnSoft404();
 
     while (this.isRunning && this.iteration < this.maxIterations) {
+      const entry = this.frontier.next();
+      if (!entry) {
+        this.log('Frontier exhausted (' + this.frontier.discovered + ' URLs discovered)', 'info');
+        break;
+      }
+      if (this.authenticated && LOGOUT_PATTERN.test(new URL(entry.url).pathname)) {
+        this.log('Skipping ' + entry.url + ' (would end the session)', 'warning');
+        await this.updateUrl(entry.url, { status: 'skipped' });
+        continue;
+      }
+      if (!this.isAllowedByRobots(entry.url)) {
+        this.log('Skipping ' + entry.url + ' (disallowed by robots.txt)', 'warning');
+        await this.updateUrl(entry.url, { status: 'disallowed' });
+        continue;
+      }
       this.iteration++;
+      this.currentUrl = entry.url;
       
       const trust = await this.getCurrentTrust();
-      const target = await prisma.target.findUnique({
-        where: { id: this.targetId },
-        select: { isAuthenticated: true }
-      });
       
-      this.log('Iteration ' + this.iteration + ' | Trust: ' + trust + '% | Auth: ' + (target?.isAuthenticated ? 'YES' : 'NO'), 'info');
+      this.log('Iteration ' + this.iteration + ' | Trust: ' + trust + '% | Auth: ' + (this.authenticated ? 'YES' : 'NO') + ' | Depth: ' + entry.depth + ' | Queue: ' + this.frontier.size, 'info');
 
       if (trust >= 70) {
         this.log('GREEN LIGHT ACHIEVED!', 'success');
         await this.updateStatus('established', 'GREEN');
         await this.recordEvent('green_light', 'Green Light Established', 'Achieved ' + trust + '% trust score', 0);
         
-        if (this.authConfig && !target?.isAuthenticated) {
-          await this.authenticate();
+        if (this.authConfig && !this.authenticated && this.reauthFailures < MAX_REAUTH_FAILURES) {
+          if (!await this.authenticate()) this.reauthFailures++;
         }
       }
 
-      const result = await this.makeRequest('/');
+      const result = await this.fetchAuthenticated(entry.url, 'GET', undefined, entry.referrer ? { 'Referer': entry.referrer } : undefined);
+      const verdict = await this.classifyContent(entry, result);
+      await this.markCrawled(entry, result, verdict);
+      await this.updateRateModel(result);
+      // Block pages identify WAFs as well as real pages identify the stack
+      if (result.headers) {
+        await this.fingerprint({ headers: result.headers, body: result.binary ? undefined : result.body });
+      }
+      const path = new URL(entry.url).pathname;
       
-      if (result.success) {
-        this.log('Homepage: ' + result.statusCode + ' (' + result.responseTime + 'ms)', 'success');
+      if (verdict.status === 'soft_404') {
+        this.log(entry.url + ': ' + result.statusCode + ' looks like the not-found page, ignored', 'warning');
+
+      } else if (verdict.status === 'duplicate') {
+        this.log(entry.url + ': same content as ' + verdict.duplicateOf + ', ignored', 'info');
+
+      } else if (result.success) {
+        this.log(entry.url + ': ' + result.statusCode + ' (' + result.responseTime + 'ms)', 'success');
         
         if (this.iteration === 1) {
           await this.recordEvent('milestone', 'First successful request', 'Status ' + result.statusCode + ', no challenge detected', 10);
+        } else {
+          await this.recordEvent('discovery', 'Discovered ' + path, 'Successfully accessed ' + entry.url + ' (depth ' + entry.depth + ')', 5);
+        }
+
+        if (String(result.headers?.['content-type'] || '').includes('html')) {
+          this.parameters.observe(observeForms(result.body || '', result.finalUrl || entry.url));
         }
 
-        const paths = ['/blog', '/about', '/contact'];
-        for (const path of paths) {
-          await new Promise(r => setTimeout(r, this.randomDelay()));
-          const pathResult = await this.makeRequest(path);
-          if (pathResult.success) {
-            this.log('  ' + path + ': ' + pathResult.statusCode, 'success');
-            await this.recordEvent('discovery', 'Discovered ' + path, 'Successfully accessed ' + path, 5);
+        const discoveries = this.analyzeResponse(entry, result);
+        if (discoveries) {
+          const added = await this.expandFrontier(entry, result, discoveries);
+          if (added > 0) {
+            this.log('  +' + added + ' new URLs queued', 'info');
+          }
+          const discovered = await this.recordDiscoveries(entry, result, discoveries);
+          if (discovered > 0) {
+            this.log('  +' + discovered + ' new discoveries', 'info');
           }
         }
 
       } else if (result.hasChallenge) {
         this.log('Challenge detected! Status: ' + result.statusCode, 'warning');
-        await this.recordEvent('challenge', 'Security challenge detected', 'Status ' + result.statusCode + ' - adapting DNA', -5);
-        this.dna.timing.min += 500;
-        this.dna.timing.max += 1000;
-        
+        await this.recordEvent('challenge', 'Security challenge detected', 'Status ' + result.statusCode + ' - slowing to ' + this.rateModel?.requestsPerSecond.toFixed(2) + ' req/s', -5);
+
       } else {
+        this.errors++;
+        this.lastError = entry.url + ': ' + (result.error || result.statusCode);
         this.log('Request failed: ' + (result.error || result.statusCode), 'error');
       }
 
+      await this.saveParameters();
+      await this.saveCheckpoint();
+
       const delay = this.randomDelay();
       this.log('Waiting ' + delay + 'ms...', 'info');
       await new Promise(r => setTimeout(r, delay));
     }
 
-    this.isRunning = false;
-    this.log('Crawl completed after ' + this.iteration + ' iterations', 'info');
+    await this.saveParameters();
+    this.log('Crawl completed after ' + this.iteration + ' iterations (' + this.parameters.size + ' parameters inventoried)', 'info');
+    if (this.scope.blockedCount > 0) {
+      this.log('Out-of-scope requests blocked: ' + this.scope.blockedCount + ' ' + JSON.stringify(this.scope.blockedHosts), 'warning');
+    }
+  }
+
+  checkpoint(): CrawlCheckpoint {
+    return {
+      frontier: this.frontier.snapshot(),
+      iteration: this.iteration,
+      requestsSent: this.requestsSent,
+      errors: this.errors,
+      currentUrl: this.currentUrl
+    };
+  }
+
+  private async saveCheckpoint() {
+    if (!this.onCheckpoint) return;
+    try {
+      await this.onCheckpoint(this.checkpoint());
+    } catch (e) {
+      this.log('Failed to save checkpoint: ' + e, 'error');
+    }
+  }
+
+  getStatus(): CrawlStatus {
+    return {
+      running: this.isRunning,
+      iteration: this.iteration,
+      maxIterations: this.maxIterations,
+      requestsSent: this.requestsSent,
+      errors: this.errors,
+      currentUrl: this.currentUrl,
+      queued: this.frontier.size,
+      discovered: this.frontier.discovered,
+      authenticated: this.authenticated,
+      lastError: this.lastError
+    };
   }
 
   stop() {
@@ -313,28 +1240,36 @@ class AutonomousCrawler {
   }
 }
 
-const targetId = process.argv[2];
-const targetUrl = process.argv[3];
-const authUsername = process.argv[4];
-const authPassword = process.argv[5];
+// Standalone use: npm run crawl -- <targetId> <targetUrl>
+if (require.main === module) {
+  const targetId = process.argv[2];
+  const targetUrl = process.argv[3];
+  const authUsername = process.argv[4];
+  const authPassword = process.argv[5];
 
-if (!targetId || !targetUrl) {
-  console.error('Usage: tsx src/crawler/autonomous.ts <targetId> <targetUrl> [username] [password]');
-  process.exit(1);
-}
+  if (!targetId || !targetUrl) {
+    console.error('Usage: tsx src/crawler/autonomous.ts <targetId> <targetUrl> [username] [password]');
+    process.exit(1);
+  }
+
+  const crawler = new AutonomousCrawler({
+    targetId,
+    url: targetUrl,
+    maxIterations: 50,
+    maxDepth: 3,
+    delayMs: 2000,
+    auth: authUsername && authPassword ? {
+      type: 'form',
+      username: authUsername,
+      password: authPassword
+    } : undefined
+  });
 
-const crawler = new AutonomousCrawler({
-  targetId,
-  url: targetUrl,
-  maxIterations: 50,
-  delayMs: 2000,
-  auth: authUsername && authPassword ? {
-    username: authUsername,
-    password: authPassword
-  } : undefined
-});
-
-process.on('SIGINT', () => { crawler.stop(); process.exit(0); });
-process.on('SIGTERM', () => { crawler.stop(); process.exit(0); });
-
-crawler.start().catch(console.error);
+  process.on('SIGINT', () => { crawler.stop(); process.exit(0); });
+  process.on('SIGTERM', () => { crawler.stop(); process.exit(0); });
+
+  crawler.start().catch(e => {
+    console.error(e instanceof ProxyError ? 'Aborting: ' + e.message : e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,275 @@
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number;        // epoch ms; undefined for session cookies
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  hostOnly: boolean;
+  creationTime: number;
+}
+
+/** Cookie shape used by Playwright's storageState() / addCookies(). */
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;         // epoch seconds; -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface StorageState {
+  cookies: BrowserCookie[];
+  origins: Array<{ origin: string; localStorage: Array<{ name: string; value: string }> }>;
+}
+
+function defaultPath(url: URL): string {
+  const path = url.pathname;
+  if (!path.startsWith('/') || path.lastIndexOf('/') === 0) return '/';
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith('.' + domain) && !/^\d+\.\d+\.\d+\.\d+$/.test(host));
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+function normalizeSameSite(value?: string): Cookie['sameSite'] {
+  const lower = value?.toLowerCase();
+  if (lower === 'strict') return 'Strict';
+  if (lower === 'lax') return 'Lax';
+  if (lower === 'none') return 'None';
+  return undefined;
+}
+
+/**
+ * RFC 6265 cookie store. Handles domain/path scoping, expiry, Secure and
+ * replacement of cookies sharing name+domain+path.
+ */
+export class CookieJar {
+  private cookies: Cookie[] = [];
+
+  /** Parses a single Set-Cookie header received for requestUrl. */
+  setCookie(header: string, requestUrl: string, now: number = Date.now()): Cookie | null {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const [pair, ...attributes] = header.split(';');
+
+    const separator = pair.indexOf('=');
+    if (separator === -1) return null;
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!name) return null;
+
+    let domain = '';
+    let path = '';
+    let expires: number | undefined;
+    let maxAge: number | undefined;
+    let secure = false;
+    let httpOnly = false;
+    let sameSite: Cookie['sameSite'];
+
+    for (const attribute of attributes) {
+      const eq = attribute.indexOf('=');
+      const key = (eq === -1 ? attribute : attribute.slice(0, eq)).trim().toLowerCase();
+      const attrValue = eq === -1 ? '' : attribute.slice(eq + 1).trim();
+
+      switch (key) {
+        case 'expires': {
+          const parsed = Date.parse(attrValue);
+          if (!isNaN(parsed)) expires = parsed;
+          break;
+        }
+        case 'max-age':
+          if (/^-?\d+$/.test(attrValue)) maxAge = parseInt(attrValue, 10);
+          break;
+        case 'domain':
+          domain = attrValue.replace(/^\./, '').toLowerCase();
+          break;
+        case 'path':
+          path = attrValue.startsWith('/') ? attrValue : '';
+          break;
+        case 'secure':
+          secure = true;
+          break;
+        case 'httponly':
+          httpOnly = true;
+          break;
+        case 'samesite':
+          sameSite = normalizeSameSite(attrValue);
+          break;
+      }
+    }
+
+    if (domain && !domainMatches(host, domain)) return null;
+    if (secure && url.protocol !== 'https:') return null;
+
+    // Max-Age takes precedence over Expires
+    if (maxAge !== undefined) {
+      expires = maxAge <= 0 ? 0 : now + maxAge * 1000;
+    }
+
+    const cookie: Cookie = {
+      name,
+      value,
+      domain: domain || host,
+      path: path || defaultPath(url),
+      expires,
+      secure,
+      httpOnly,
+      sameSite,
+      hostOnly: !domain,
+      creationTime: now
+    };
+
+    return this.store(cookie, now);
+  }
+
+  setCookies(headers: string[] | string | undefined, requestUrl: string): number {
+    if (!headers) return 0;
+    const list = Array.isArray(headers) ? headers : [headers];
+    return list.filter(header => this.setCookie(header, requestUrl) !== null).length;
+  }
+
+  private store(cookie: Cookie, now: number): Cookie | null {
+    const index = this.cookies.findIndex(c =>
+      c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path
+    );
+
+    if (index !== -1) {
+      cookie.creationTime = this.cookies[index].creationTime;
+      this.cookies.splice(index, 1);
+    }
+
+    // An already-expired cookie is how servers delete one
+    if (cookie.expires !== undefined && cookie.expires <= now) return null;
+
+    this.cookies.push(cookie);
+    return cookie;
+  }
+
+  getCookies(requestUrl: string, now: number = Date.now()): Cookie[] {
+    this.purgeExpired(now);
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const secure = url.protocol === 'https:';
+
+    return this.cookies
+      .filter(c => (c.hostOnly ? host === c.domain : domainMatches(host, c.domain)))
+      .filter(c => pathMatches(url.pathname || '/', c.path))
+      .filter(c => !c.secure || secure)
+      .sort((a, b) => b.path.length - a.path.length || a.creationTime - b.creationTime);
+  }
+
+  getCookieHeader(requestUrl: string): string {
+    return this.getCookies(requestUrl).map(c => c.name + '=' + c.value).join('; ');
+  }
+
+  has(name: string, requestUrl?: string): boolean {
+    const candidates = requestUrl ? this.getCookies(requestUrl) : this.all();
+    return candidates.some(c => c.name === name);
+  }
+
+  all(): Cookie[] {
+    this.purgeExpired(Date.now());
+    return [...this.cookies];
+  }
+
+  get size(): number {
+    return this.all().length;
+  }
+
+  clear(): void {
+    this.cookies = [];
+  }
+
+  private purgeExpired(now: number): void {
+    this.cookies = this.cookies.filter(c => c.expires === undefined || c.expires > now);
+  }
+
+  toJSON(): Cookie[] {
+    return this.all();
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  /**
+   * Restores a jar from Target.sessionCookies. Older rows stored a plain
+   * array of raw Set-Cookie strings; those are re-parsed against baseUrl.
+   */
+  static deserialize(json: string | null | undefined, baseUrl: string): CookieJar {
+    const jar = new CookieJar();
+    if (!json) return jar;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      return jar;
+    }
+    if (!Array.isArray(parsed)) return jar;
+
+    const now = Date.now();
+    for (const entry of parsed) {
+      if (typeof entry === 'string') {
+        jar.setCookie(entry, baseUrl, now);
+      } else if (entry && typeof entry === 'object' && 'name' in entry && 'domain' in entry) {
+        jar.store({ ...(entry as Cookie) }, now);
+      }
+    }
+    return jar;
+  }
+
+  toStorageState(): StorageState {
+    return {
+      cookies: this.all().map(c => ({
+        name: c.name,
+        value: c.value,
+        domain: c.hostOnly ? c.domain : '.' + c.domain,
+        path: c.path,
+        expires: c.expires !== undefined ? Math.floor(c.expires / 1000) : -1,
+        httpOnly: c.httpOnly,
+        secure: c.secure,
+        sameSite: c.sameSite || 'Lax'
+      })),
+      origins: []
+    };
+  }
+
+  /** Merges browser cookies into the jar, replacing same-keyed entries. */
+  importStorageState(state: Pick<StorageState, 'cookies'>): void {
+    const now = Date.now();
+    for (const c of state.cookies) {
+      this.store({
+        name: c.name,
+        value: c.value,
+        domain: c.domain.replace(/^\./, '').toLowerCase(),
+        path: c.path || '/',
+        expires: c.expires > 0 ? c.expires * 1000 : undefined,
+        secure: c.secure,
+        httpOnly: c.httpOnly,
+        sameSite: c.sameSite,
+        hostOnly: !c.domain.startsWith('.'),
+        creationTime: now
+      }, now);
+    }
+  }
+
+  static fromStorageState(state: Pick<StorageState, 'cookies'>): CookieJar {
+    const jar = new CookieJar();
+    jar.importStorageState(state);
+    return jar;
+  }
+}
@@ -0,0 +1,118 @@
+import zlib from 'zlib';
+import { IncomingHttpHeaders } from 'http';
+
+export interface DecodedBody {
+  text?: string;           // undefined for binary content
+  bytes: Buffer;           // decompressed payload
+  binary: boolean;
+  charset?: string;
+  contentType: string;
+  encoding?: string;
+  error?: string;
+}
+
+const TEXT_TYPES = [
+  /^text\//,
+  /[/+]json\b/,
+  /[/+]xml\b/,
+  /javascript|ecmascript/,
+  /x-www-form-urlencoded/,
+  /graphql/,
+  /^application\/(x-)?yaml/
+];
+
+const BINARY_TYPES = [
+  /^image\/(?!svg)/,
+  /^audio\//,
+  /^video\//,
+  /^font\//,
+  /octet-stream|pdf|zip|gzip|protobuf|wasm|msword|officedocument|x-tar|x-7z/
+];
+
+function parseContentType(header?: string | string[]): { mime: string; charset?: string } {
+  const value = Array.isArray(header) ? header[0] : header || '';
+  const [mime, ...params] = value.split(';');
+  const charsetParam = params.map(p => p.trim()).find(p => p.toLowerCase().startsWith('charset='));
+  return {
+    mime: mime.trim().toLowerCase(),
+    charset: charsetParam?.slice(8).trim().replace(/^["']|["']$/g, '').toLowerCase() || undefined
+  };
+}
+
+/**
+ * Undoes Content-Encoding. Multiple codings are removed in reverse order
+ * of application; maxBytes guards against decompression bombs.
+ */
+export function decompress(body: Buffer, contentEncoding: string | undefined, maxBytes: number): Buffer {
+  if (!contentEncoding) return body;
+  const options = { maxOutputLength: maxBytes };
+  const codings = contentEncoding.split(',').map(c => c.trim().toLowerCase()).filter(Boolean).reverse();
+
+  let data = body;
+  for (const coding of codings) {
+    if (coding === 'gzip' || coding === 'x-gzip') {
+      data = zlib.gunzipSync(data, { ...options, finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    } else if (coding === 'br') {
+      data = zlib.brotliDecompressSync(data, options);
+    } else if (coding === 'deflate') {
+      // Some servers send raw DEFLATE instead of the zlib-wrapped format
+      try {
+        data = zlib.inflateSync(data, options);
+      } catch {
+        data = zlib.inflateRawSync(data, options);
+      }
+    } else if (coding !== 'identity') {
+      throw new Error('Unsupported content-encoding: ' + coding);
+    }
+  }
+  return data;
+}
+
+export function sniffCharset(bytes: Buffer): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const head = bytes.subarray(0, 2048).toString('latin1');
+  const meta = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+  if (meta) return meta[1].toLowerCase();
+
+  const xml = head.match(/^<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)["']/i);
+  return xml ? xml[1].toLowerCase() : undefined;
+}
+
+export function isBinary(mime: string, bytes: Buffer): boolean {
+  if (TEXT_TYPES.some(p => p.test(mime))) return false;
+  if (BINARY_TYPES.some(p => p.test(mime))) return true;
+
+  // Unknown or missing type: NUL bytes in the first KB mean binary
+  return bytes.subarray(0, 1024).includes(0);
+}
+
+export function decodeText(bytes: Buffer, charset?: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown label: fall back rather than lose the body
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+export function decodeBody(headers: IncomingHttpHeaders, body: Buffer, maxBytes: number): DecodedBody {
+  const { mime, charset: declaredCharset } = parseContentType(headers['content-type']);
+  const encoding = headers['content-encoding'];
+
+  let bytes: Buffer;
+  try {
+    bytes = decompress(body, encoding, maxBytes);
+  } catch (e) {
+    return { bytes: body, binary: true, contentType: mime, encoding, error: 'Failed to decode body: ' + (e as Error).message };
+  }
+
+  if (isBinary(mime, bytes)) {
+    return { bytes, binary: true, contentType: mime, encoding };
+  }
+
+  const charset = declaredCharset || sniffCharset(bytes) || 'utf-8';
+  return { text: decodeText(bytes, charset), bytes, binary: false, charset, contentType: mime, encoding };
+}
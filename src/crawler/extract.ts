@@ -0,0 +1,151 @@
+import type { PrismaClient } from '@prisma/client';
+import { normalizeUrl } from './frontier.js';
+import { parseForms } from './login.js';
+import { analyzeScript, inlineScripts } from './scripts.js';
+
+export type DiscoveryType =
+  | 'link' | 'form' | 'script' | 'stylesheet' | 'iframe' | 'comment' | 'email' | 'meta'
+  | 'endpoint' | 'graphql' | 'sourcemap'
+  | 'apispec' | 'operation';
+
+export const DISCOVERY_TYPES: DiscoveryType[] = [
+  'link', 'form', 'script', 'stylesheet', 'iframe', 'comment', 'email', 'meta',
+  'endpoint', 'graphql', 'sourcemap',
+  'apispec', 'operation'
+];
+
+/** One thing found in a page. value is what deduplication keys on. */
+export interface ExtractedDiscovery {
+  type: DiscoveryType;
+  value: string;
+  details?: Record<string, unknown>;
+}
+
+const MAX_COMMENT_LENGTH = 500;
+
+// Asset and image names match the email shape too (logo@2x.png)
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const NOT_EMAIL = /\.(png|jpe?g|gif|svg|webp|css|js)$/i;
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp('\\s' + name + '\\s*=\\s*(?:"([^"]*)"|\'([^\']*)\'|([^\\s"\'>]+))', 'i'));
+  if (!match) return undefined;
+  return match[1] ?? match[2] ?? match[3];
+}
+
+function tags(html: string, name: string): string[] {
+  return [...html.matchAll(new RegExp('<' + name + '\\b[^>]*>', 'gi'))].map(m => m[0]);
+}
+
+/**
+ * Runs the extraction pipeline over an HTML document: links, forms,
+ * script/stylesheet/iframe sources, comments, email addresses and meta
+ * tags, plus whatever analyzeScript finds in inline scripts. URLs are
+ * resolved against the page and normalized; each result appears once per
+ * page.
+ */
+export function extractDiscoveries(html: string, pageUrl: string): ExtractedDiscovery[] {
+  const found = new Map<string, ExtractedDiscovery>();
+  const add = (discovery: ExtractedDiscovery) => {
+    const key = discovery.type + '|' + discovery.value;
+    if (!found.has(key)) found.set(key, discovery);
+  };
+  const resolve = (raw: string | undefined) => (raw ? normalizeUrl(raw, pageUrl) : null);
+
+  for (const tag of [...tags(html, 'a'), ...tags(html, 'area')]) {
+    const url = resolve(attribute(tag, 'href'));
+    if (url) add({ type: 'link', value: url, details: { rel: attribute(tag, 'rel') } });
+  }
+
+  for (const form of parseForms(html, pageUrl)) {
+    add({
+      type: 'form',
+      value: form.method + ' ' + form.action,
+      details: {
+        action: form.action,
+        method: form.method,
+        enctype: form.enctype,
+        inputs: form.fields.map(f => ({ name: f.name, type: f.type }))
+      }
+    });
+  }
+
+  for (const tag of tags(html, 'script')) {
+    const url = resolve(attribute(tag, 'src'));
+    if (url) add({ type: 'script', value: url, details: { async: /\sasync\b/i.test(tag), integrity: attribute(tag, 'integrity') } });
+  }
+
+  for (const tag of tags(html, 'link')) {
+    const rel = (attribute(tag, 'rel') || '').toLowerCase();
+    const url = resolve(attribute(tag, 'href'));
+    if (!url) continue;
+    if (rel.split(/\s+/).includes('stylesheet')) {
+      add({ type: 'stylesheet', value: url, details: { integrity: attribute(tag, 'integrity') } });
+    } else {
+      add({ type: 'link', value: url, details: { rel } });
+    }
+  }
+
+  for (const tag of [...tags(html, 'iframe'), ...tags(html, 'frame')]) {
+    const url = resolve(attribute(tag, 'src'));
+    if (url) add({ type: 'iframe', value: url, details: { sandbox: attribute(tag, 'sandbox') } });
+  }
+
+  for (const match of html.matchAll(/<!--([\s\S]*?)-->/g)) {
+    const text = match[1].trim();
+    // Conditional comments and empty markers carry nothing
+    if (!text || /^\[if\b|^<!\[endif\]|^\/?ko\b/i.test(text)) continue;
+    add({ type: 'comment', value: text.slice(0, MAX_COMMENT_LENGTH), details: text.length > MAX_COMMENT_LENGTH ? { length: text.length } : undefined });
+  }
+
+  for (const match of html.matchAll(EMAIL_PATTERN)) {
+    if (NOT_EMAIL.test(match[0])) continue;
+    add({ type: 'email', value: match[0].toLowerCase() });
+  }
+
+  for (const tag of tags(html, 'meta')) {
+    const name = attribute(tag, 'name') || attribute(tag, 'property') || attribute(tag, 'http-equiv');
+    const content = attribute(tag, 'content');
+    if (name && content !== undefined) add({ type: 'meta', value: name.toLowerCase() + '=' + content });
+  }
+
+  for (const script of inlineScripts(html)) {
+    for (const discovery of analyzeScript(script, pageUrl)) add(discovery);
+  }
+
+  return [...found.values()];
+}
+
+/**
+ * Stores discoveries the target does not have yet (Discovery is unique on
+ * target, type and value). Returns the ones that were new.
+ */
+export async function saveDiscoveries(
+  prisma: PrismaClient,
+  targetId: string,
+  found: ExtractedDiscovery[],
+  pageUrl: string,
+  requestLogId?: string
+): Promise<ExtractedDiscovery[]> {
+  if (found.length === 0) return [];
+
+  const existing = await prisma.discovery.findMany({
+    where: { targetId, value: { in: found.map(d => d.value) } },
+    select: { type: true, value: true }
+  });
+  const known = new Set(existing.map(d => d.type + '|' + d.value));
+  const fresh = found.filter(d => !known.has(d.type + '|' + d.value));
+  if (fresh.length > 0) {
+    await prisma.discovery.createMany({
+      data: fresh.map(d => ({
+        targetId,
+        requestLogId,
+        type: d.type,
+        value: d.value,
+        details: d.details ? JSON.stringify(d.details) : undefined,
+        pageUrl
+      }))
+    });
+  }
+  return fresh;
+}
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export type FindingStatus = 'new' | 'confirmed' | 'false_positive' | 'fixed';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+export const FINDING_STATUSES: FindingStatus[] = ['new', 'confirmed', 'false_positive', 'fixed'];
+
+/**
+ * What a detector reports. key identifies the problem within the detector
+ * (host and check, say) and must not change between crawls: it is what
+ * findings are deduplicated on.
+ */
+export interface ReportedFinding {
+  detector: string;
+  key: string;
+  title: string;
+  description?: string;
+  severity: FindingSeverity;
+  confidence: number;      // 0-100
+  cwe?: number;
+  url?: string;
+  evidence?: Record<string, unknown>;
+  requestLogId?: string;
+}
+
+/** Fields a tester may change while triaging. */
+export interface FindingUpdate {
+  status?: FindingStatus;
+  notes?: string | null;
+  severity?: FindingSeverity;
+  confidence?: number;
+  title?: string;
+  cwe?: number | null;
+}
+
+export class FindingError extends Error {}
+
+// Enough requests to reproduce from; a missing header on every page should not link them all
+const MAX_EVIDENCE_LOGS = 10;
+
+export function findingFingerprint(detector: string, key: string): string {
+  return createHash('sha256').update(detector + '\n' + key).digest('hex');
+}
+
+/**
+ * Stores reported findings. A finding seen before is not duplicated: its
+ * lastSeen and occurrences move, the request is added to its evidence and
+ * a finding marked fixed that shows up again is reopened. False positives
+ * stay closed. Returns the findings that are new or reopened.
+ */
+export async function reportFindings(prisma: PrismaClient, targetId: string, findings: ReportedFinding[]): Promise<ReportedFinding[]> {
+  const raised: ReportedFinding[] = [];
+
+  for (const finding of findings) {
+    const fingerprint = findingFingerprint(finding.detector, finding.key);
+    const existing = await prisma.finding.findUnique({
+      where: { targetId_fingerprint: { targetId, fingerprint } },
+      select: { id: true, status: true, _count: { select: { requestLogs: true } } }
+    });
+    const evidenceLog = finding.requestLogId ? { connect: { id: finding.requestLogId } } : undefined;
+
+    if (!existing) {
+      await prisma.finding.create({
+        data: {
+          targetId,
+          fingerprint,
+          detector: finding.detector,
+          title: finding.title,
+          description: finding.description,
+          severity: finding.severity,
+          confidence: finding.confidence,
+          cwe: finding.cwe,
+          url: finding.url,
+          evidence: finding.evidence ? JSON.stringify(finding.evidence) : undefined,
+          requestLogs: evidenceLog
+        }
+      });
+      raised.push(finding);
+      continue;
+    }
+
+    const reopened = existing.status === 'fixed';
+    await prisma.finding.update({
+      where: { id: existing.id },
+      data: {
+        lastSeen: new Date(),
+        occurrences: { increment: 1 },
+        status: reopened ? 'new' : undefined,
+        requestLogs: existing._count.requestLogs < MAX_EVIDENCE_LOGS ? evidenceLog : undefined
+      }
+    });
+    if (reopened) raised.push(finding);
+  }
+
+  return raised;
+}
+
+/** Validates a triage update from the API. Throws FindingError with a field-level message. */
+export function parseFindingUpdate(body: unknown): FindingUpdate {
+  if (typeof body !== 'object' || body === null) throw new FindingError('Body must be an object');
+  const { status, notes, severity, confidence, title, cwe } = body as Record<string, unknown>;
+  const update: FindingUpdate = {};
+
+  if (status !== undefined) {
+    if (!FINDING_STATUSES.includes(status as FindingStatus)) throw new FindingError('status must be one of ' + FINDING_STATUSES.join(', '));
+    update.status = status as FindingStatus;
+  }
+  if (severity !== undefined) {
+    if (!FINDING_SEVERITIES.includes(severity as FindingSeverity)) throw new FindingError('severity must be one of ' + FINDING_SEVERITIES.join(', '));
+    update.severity = severity as FindingSeverity;
+  }
+  if (confidence !== undefined) {
+    if (!Number.isInteger(confidence) || (confidence as number) < 0 || (confidence as number) > 100) {
+      throw new FindingError('confidence must be an integer from 0 to 100');
+    }
+    update.confidence = confidence as number;
+  }
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== 'string') throw new FindingError('notes must be a string');
+    update.notes = notes;
+  }
+  if (title !== undefined) {
+    if (typeof title !== 'string' || !title.trim()) throw new FindingError('title must be a non-empty string');
+    update.title = title.trim();
+  }
+  if (cwe !== undefined) {
+    if (cwe !== null && (!Number.isInteger(cwe) || (cwe as number) <= 0)) throw new FindingError('cwe must be a positive integer');
+    update.cwe = cwe as number | null;
+  }
+  return update;
+}
+
+/**
+ * Validates a finding a tester records by hand. Manual findings go through
+ * the same deduplication as detector output, keyed on title and URL.
+ */
+export function parseManualFinding(body: unknown): ReportedFinding & { notes?: string } {
+  if (typeof body !== 'object' || body === null) throw new FindingError('Body must be an object');
+  const { title, url, description, evidence, requestLogId } = body as Record<string, unknown>;
+  if (typeof title !== 'string' || !title.trim()) throw new FindingError('title required');
+  if (url !== undefined && typeof url !== 'string') throw new FindingError('url must be a string');
+  if (description !== undefined && typeof description !== 'string') throw new FindingError('description must be a string');
+  if (evidence !== undefined && (typeof evidence !== 'object' || evidence === null)) throw new FindingError('evidence must be an object');
+  if (requestLogId !== undefined && typeof requestLogId !== 'string') throw new FindingError('requestLogId must be a string');
+
+  const triage = parseFindingUpdate({ ...(body as object), title: undefined, status: undefined });
+  return {
+    detector: 'manual',
+    key: title.trim() + ' ' + (url || ''),
+    title: title.trim(),
+    description,
+    severity: triage.severity || 'medium',
+    confidence: triage.confidence ?? 100,
+    cwe: triage.cwe ?? undefined,
+    url,
+    evidence: evidence as Record<string, unknown> | undefined,
+    requestLogId,
+    notes: triage.notes ?? undefined
+  };
+}
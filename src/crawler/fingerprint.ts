@@ -0,0 +1,282 @@
+import { SIGNATURES, TechSignature } from './signatures.js';
+
+export type TechCategory = 'server' | 'framework' | 'cms' | 'cdn' | 'waf' | 'application';
+
+export type EvidenceSource = 'header' | 'cookie' | 'html' | 'script' | 'favicon';
+
+export const TECH_CATEGORIES: TechCategory[] = ['server', 'framework', 'cms', 'cdn', 'waf', 'application'];
+
+/** One trace of a technology, and how much it says on its own (0-100). */
+export interface TechEvidence {
+  source: EvidenceSource;
+  match: string;
+  weight: number;
+}
+
+/** A detected technology, as stored in Target.technologies. */
+export interface Technology {
+  name: string;
+  category: TechCategory;
+  version?: string;
+  confidence: number;
+  evidence: TechEvidence[];
+}
+
+/** The parts of a response fingerprinting looks at. */
+export interface FingerprintInput {
+  headers?: Record<string, unknown>;
+  body?: string;
+  faviconHash?: number;
+}
+
+/** What the analysis endpoint reports about a target. */
+export interface TechnologyAssessment {
+  cdn?: string;
+  waf?: string;
+  securityLevel: 'low' | 'medium' | 'high';
+  recommendations: string[];
+}
+
+// How much one match says when the signature does not set a weight
+const SOURCE_WEIGHTS: Record<EvidenceSource, number> = {
+  header: 80,
+  cookie: 60,
+  html: 50,
+  script: 60,
+  favicon: 90
+};
+
+const MAX_EVIDENCE = 10;
+const MAX_MATCH_LENGTH = 120;
+const MAX_HTML_BYTES = 512 * 1024;
+
+/** 32-bit MurmurHash3 (x86), signed like Python's mmh3.hash. */
+function murmurhash3(data: Buffer, seed: number = 0): number {
+  let h = seed >>> 0;
+  const c1 = 0xcc9e2d51;
+  const c2 = 0x1b873593;
+  const blocks = data.length - (data.length % 4);
+
+  for (let i = 0; i < blocks; i += 4) {
+    let k = data.readUInt32LE(i);
+    k = Math.imul(k, c1);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, c2);
+    h ^= k;
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+
+  let k = 0;
+  switch (data.length & 3) {
+    case 3: k ^= data[blocks + 2] << 16;
+    // falls through
+    case 2: k ^= data[blocks + 1] << 8;
+    // falls through
+    case 1:
+      k ^= data[blocks];
+      k = Math.imul(k, c1);
+      k = (k << 15) | (k >>> 17);
+      k = Math.imul(k, c2);
+      h ^= k;
+  }
+
+  h ^= data.length;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+/**
+ * Favicon hash in the form Shodan indexes (http.favicon.hash): mmh3 of the
+ * base64 encoding with a newline every 76 characters and one at the end.
+ */
+export function faviconHash(bytes: Buffer): number {
+  const base64 = bytes.toString('base64').replace(/.{76}/g, '$&\n');
+  return murmurhash3(Buffer.from(base64.endsWith('\n') ? base64 : base64 + '\n'));
+}
+
+function clip(value: string): string {
+  return value.length > MAX_MATCH_LENGTH ? value.slice(0, MAX_MATCH_LENGTH) + '…' : value;
+}
+
+function headerValues(headers: Record<string, unknown>, name: string): string[] {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  if (!key) return [];
+  const value = headers[key];
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+function cookieNames(headers: Record<string, unknown>): string[] {
+  return headerValues(headers, 'set-cookie').map(cookie => cookie.split(';')[0].split('=')[0].trim()).filter(Boolean);
+}
+
+function scriptSources(html: string): string[] {
+  return [...html.matchAll(/<script\b[^>]*\ssrc\s*=\s*["']?([^"'\s>]+)/gi)].map(m => m[1]);
+}
+
+/** Combines independent evidence: each match removes part of the remaining doubt. */
+function confidenceOf(evidence: TechEvidence[]): number {
+  const doubt = evidence.reduce((rest, e) => rest * (1 - e.weight / 100), 1);
+  return Math.round((1 - doubt) * 100);
+}
+
+function matchSignature(signature: TechSignature, input: FingerprintInput, cookies: string[], scripts: string[], html: string): Technology | null {
+  const evidence: TechEvidence[] = [];
+  let version: string | undefined;
+  const add = (source: EvidenceSource, match: string, captured?: string) => {
+    evidence.push({ source, match: clip(match), weight: signature.weight ?? SOURCE_WEIGHTS[source] });
+    if (captured && !version) version = captured;
+  };
+
+  for (const [name, rule] of Object.entries(signature.headers || {})) {
+    for (const value of headerValues(input.headers || {}, name)) {
+      if (rule === true) {
+        add('header', name + ': ' + value);
+        break;
+      }
+      const match = value.match(rule);
+      if (match) {
+        add('header', name + ': ' + value, match[1]);
+        break;
+      }
+    }
+  }
+
+  for (const rule of signature.cookies || []) {
+    const name = cookies.find(cookie => rule.test(cookie));
+    if (name) add('cookie', name);
+  }
+
+  for (const rule of signature.html || []) {
+    const match = html.match(rule);
+    if (match) add('html', match[0], match[1]);
+  }
+
+  for (const rule of signature.scripts || []) {
+    for (const src of scripts) {
+      const match = src.match(rule);
+      if (match) {
+        add('script', src, match[1]);
+        break;
+      }
+    }
+  }
+
+  if (input.faviconHash !== undefined && signature.favicon?.includes(input.faviconHash)) {
+    add('favicon', 'favicon hash ' + input.faviconHash);
+  }
+
+  if (evidence.length === 0) return null;
+  return { name: signature.name, category: signature.category, version, confidence: confidenceOf(evidence), evidence };
+}
+
+/**
+ * Matches one response against the signature database: headers, cookie
+ * names from Set-Cookie, the HTML and its script sources, and the favicon
+ * hash when one was fetched.
+ */
+export function detectTechnologies(input: FingerprintInput, signatures: TechSignature[] = SIGNATURES): Technology[] {
+  const html = (input.body || '').slice(0, MAX_HTML_BYTES);
+  const cookies = cookieNames(input.headers || {});
+  const scripts = scriptSources(html);
+
+  return signatures
+    .map(signature => matchSignature(signature, input, cookies, scripts, html))
+    .filter((tech): tech is Technology => tech !== null);
+}
+
+/** Reads Target.technologies; anything unparseable counts as nothing known. */
+export function parseTechnologies(value: string | null | undefined): Technology[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Everything known about a target's stack, merged across responses. The
+ * same trace seen twice counts once; different traces raise confidence.
+ */
+export class TechnologyProfile {
+  private technologies: Map<string, Technology> = new Map();
+  private changed: boolean = false;
+
+  constructor(existing: Technology[] = []) {
+    for (const tech of existing) this.technologies.set(tech.category + '|' + tech.name, tech);
+  }
+
+  /** Merges detections in and returns the technologies that were not known before. */
+  observe(found: Technology[]): Technology[] {
+    const identified: Technology[] = [];
+    for (const tech of found) {
+      const key = tech.category + '|' + tech.name;
+      const known = this.technologies.get(key);
+      if (!known) {
+        this.technologies.set(key, { ...tech, evidence: tech.evidence.slice(0, MAX_EVIDENCE) });
+        identified.push(tech);
+        this.changed = true;
+        continue;
+      }
+
+      for (const evidence of tech.evidence) {
+        if (known.evidence.length >= MAX_EVIDENCE) break;
+        if (known.evidence.some(e => e.source === evidence.source && e.match === evidence.match)) continue;
+        known.evidence.push(evidence);
+        this.changed = true;
+      }
+      if (!known.version && tech.version) {
+        known.version = tech.version;
+        this.changed = true;
+      }
+      known.confidence = confidenceOf(known.evidence);
+    }
+    return identified;
+  }
+
+  /** True once, after observe() changed something worth saving. */
+  dirty(): boolean {
+    const changed = this.changed;
+    this.changed = false;
+    return changed;
+  }
+
+  list(): Technology[] {
+    return [...this.technologies.values()].sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+/**
+ * Sums a stack up for the operator: the CDN and WAF in front of the target
+ * (the most confident of each), how defended it is, and the advice the
+ * matching signatures carry.
+ */
+export function assessTechnologies(technologies: Technology[], signatures: TechSignature[] = SIGNATURES): TechnologyAssessment {
+  const best = (category: TechCategory) =>
+    technologies.filter(t => t.category === category).sort((a, b) => b.confidence - a.confidence)[0];
+  const cdn = best('cdn');
+  const waf = best('waf');
+
+  const recommendations: string[] = [];
+  for (const tech of technologies) {
+    const advice = signatures.find(s => s.name === tech.name && s.category === tech.category)?.advice;
+    if (advice && !recommendations.includes(advice)) recommendations.push(advice);
+  }
+  if (!waf) recommendations.push('No WAF identified: the learned rate limit is the main thing keeping the crawl unnoticed');
+  for (const tech of technologies.filter(t => t.version && (t.category === 'server' || t.category === 'cms'))) {
+    recommendations.push(tech.name + ' discloses its version (' + tech.version + ')');
+  }
+
+  return {
+    cdn: cdn?.name,
+    waf: waf?.name,
+    securityLevel: waf && waf.confidence >= 50 ? 'high' : cdn ? 'medium' : 'low',
+    recommendations
+  };
+}
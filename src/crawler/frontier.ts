@@ -0,0 +1,136 @@
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  referrer?: string;
+}
+
+/** Serializable frontier state, used to resume an interrupted crawl. */
+export interface FrontierSnapshot {
+  queue: FrontierEntry[];
+  seen: string[];
+}
+
+const SKIPPED_SCHEMES = ['javascript:', 'mailto:', 'tel:', 'data:', 'about:', 'blob:'];
+
+const LINK_PATTERNS = [
+  /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi,
+  /<area\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi,
+  /<link\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi,
+  /<i?frame\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi,
+  /<form\b[^>]*?\baction\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi
+];
+
+const BASE_PATTERN = /<base\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>');
+}
+
+/**
+ * Canonical form used for deduplication: no fragment, lowercase host,
+ * no default port, sorted query parameters. Returns null for anything
+ * that is not a crawlable http(s) URL.
+ */
+export function normalizeUrl(raw: string, base?: string): string | null {
+  const value = decodeEntities(raw.trim());
+  if (!value || value.startsWith('#')) return null;
+  if (SKIPPED_SCHEMES.some(scheme => value.toLowerCase().startsWith(scheme))) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  url.hostname = url.hostname.toLowerCase();
+  if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+    url.port = '';
+  }
+  url.searchParams.sort();
+
+  return url.toString();
+}
+
+/**
+ * Pulls every navigable reference out of an HTML document, resolved
+ * against the page URL (or its <base href>) and normalized.
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const baseMatch = html.match(BASE_PATTERN);
+  const baseHref = baseMatch ? (baseMatch[1] ?? baseMatch[2] ?? baseMatch[3]) : undefined;
+  const base = (baseHref && normalizeUrl(baseHref, pageUrl)) || pageUrl;
+
+  const links = new Set<string>();
+  for (const pattern of LINK_PATTERNS) {
+    for (const match of html.matchAll(pattern)) {
+      const href = match[1] ?? match[2] ?? match[3];
+      if (!href) continue;
+      const normalized = normalizeUrl(href, base);
+      if (normalized) links.add(normalized);
+    }
+  }
+  return [...links];
+}
+
+/**
+ * Breadth-first crawl frontier. URLs are deduplicated on their normalized
+ * form and anything deeper than maxDepth is dropped at enqueue time.
+ */
+export class CrawlFrontier {
+  private queue: FrontierEntry[] = [];
+  private seen: Set<string> = new Set();
+  private maxDepth: number;
+
+  constructor(maxDepth: number) {
+    this.maxDepth = maxDepth;
+  }
+
+  add(url: string, depth: number, referrer?: string): FrontierEntry | null {
+    if (depth > this.maxDepth) return null;
+
+    const normalized = normalizeUrl(url);
+    if (!normalized || this.seen.has(normalized)) return null;
+
+    this.seen.add(normalized);
+    const entry: FrontierEntry = { url: normalized, depth, referrer };
+    this.queue.push(entry);
+    return entry;
+  }
+
+  next(): FrontierEntry | undefined {
+    return this.queue.shift();
+  }
+
+  has(url: string): boolean {
+    const normalized = normalizeUrl(url);
+    return normalized ? this.seen.has(normalized) : false;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  get discovered(): number {
+    return this.seen.size;
+  }
+
+  snapshot(): FrontierSnapshot {
+    return { queue: [...this.queue], seen: [...this.seen] };
+  }
+
+  static restore(maxDepth: number, snapshot: FrontierSnapshot): CrawlFrontier {
+    const frontier = new CrawlFrontier(maxDepth);
+    frontier.queue = snapshot.queue.filter(entry => entry.depth <= maxDepth);
+    frontier.seen = new Set(snapshot.seen);
+    return frontier;
+  }
+}
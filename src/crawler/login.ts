@@ -0,0 +1,242 @@
+export interface FormField {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface HtmlForm {
+  action: string;
+  method: string;
+  enctype: string;
+  fields: FormField[];
+}
+
+/** Conditions that must all hold for a login attempt to count as successful. */
+export interface LoginIndicators {
+  cookie?: string;         // a cookie with this name is present afterwards
+  urlChange?: boolean;     // the final URL differs from the login page
+  urlContains?: string;    // the final URL contains this substring
+  text?: string;           // the response body contains this text
+  absentText?: string;     // the response body does not contain this text
+}
+
+export interface LoginOutcome {
+  statusCode?: number;
+  loginUrl: string;
+  finalUrl: string;
+  body: string;
+  cookieNames: string[];
+  newCookies: number;
+  tokenIssued: boolean;
+}
+
+const USERNAME_HINTS = /user|email|login|account|ident|name/i;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp('\\s' + name + '\\s*=\\s*(?:"([^"]*)"|\'([^\']*)\'|([^\\s"\'>]+))', 'i'));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+/** Extracts every <form> with its input, select and textarea fields. */
+export function parseForms(html: string, pageUrl: string): HtmlForm[] {
+  const forms: HtmlForm[] = [];
+
+  for (const match of html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi)) {
+    const openTag = '<form ' + match[1];
+    const inner = match[2];
+    const fields: FormField[] = [];
+
+    for (const input of inner.matchAll(/<input\b[^>]*>/gi)) {
+      const name = attribute(input[0], 'name');
+      if (!name) continue;
+      const type = (attribute(input[0], 'type') || 'text').toLowerCase();
+      // Unchecked boxes are not submitted by browsers either
+      if ((type === 'checkbox' || type === 'radio') && !/\schecked\b/i.test(input[0])) continue;
+      fields.push({ name, type, value: attribute(input[0], 'value') ?? (type === 'checkbox' ? 'on' : '') });
+    }
+
+    for (const select of inner.matchAll(/<select\b([^>]*)>([\s\S]*?)<\/select>/gi)) {
+      const name = attribute('<select ' + select[1], 'name');
+      if (!name) continue;
+      const options = [...select[2].matchAll(/<option\b([^>]*)>([^<]*)/gi)];
+      const chosen = options.find(o => /\sselected\b/i.test(' ' + o[1])) || options[0];
+      const value = chosen ? attribute('<option ' + chosen[1], 'value') ?? chosen[2].trim() : '';
+      fields.push({ name, type: 'select', value });
+    }
+
+    for (const textarea of inner.matchAll(/<textarea\b([^>]*)>([\s\S]*?)<\/textarea>/gi)) {
+      const name = attribute('<textarea ' + textarea[1], 'name');
+      if (name) fields.push({ name, type: 'textarea', value: decodeEntities(textarea[2]) });
+    }
+
+    let action = pageUrl;
+    try {
+      action = new URL(attribute(openTag, 'action') || pageUrl, pageUrl).toString();
+    } catch {
+      // Malformed action: browsers submit to the current page
+    }
+
+    forms.push({
+      action,
+      method: (attribute(openTag, 'method') || 'GET').toUpperCase(),
+      enctype: (attribute(openTag, 'enctype') || 'application/x-www-form-urlencoded').toLowerCase(),
+      fields
+    });
+  }
+
+  return forms;
+}
+
+/** Picks the form that has exactly one password field (sign-up forms usually have two). */
+export function findLoginForm(forms: HtmlForm[]): HtmlForm | undefined {
+  const withPassword = forms.filter(f => f.fields.some(field => field.type === 'password'));
+  return withPassword.find(f => f.fields.filter(field => field.type === 'password').length === 1) || withPassword[0];
+}
+
+/**
+ * Works out which inputs carry the credentials. Explicit names win; otherwise
+ * the password is the password-typed input and the username is the email or
+ * text input that looks most like one.
+ */
+export function inferCredentialFields(form: HtmlForm, usernameField?: string, passwordField?: string): { username?: string; password?: string } {
+  const password = passwordField || form.fields.find(f => f.type === 'password')?.name;
+  if (usernameField) return { username: usernameField, password };
+
+  const candidates = form.fields.filter(f => ['text', 'email', 'tel'].includes(f.type) && f.name !== password);
+  const username =
+    candidates.find(f => f.type === 'email') ||
+    candidates.find(f => USERNAME_HINTS.test(f.name)) ||
+    candidates[0];
+  return { username: username?.name, password };
+}
+
+/**
+ * Builds the submission body: every field the form would send by default
+ * (hidden CSRF tokens included), with the credentials filled in.
+ */
+export function buildFormPayload(form: HtmlForm, credentials: Record<string, string>): URLSearchParams {
+  const payload = new URLSearchParams();
+  for (const field of form.fields) {
+    if (field.type === 'submit' || field.type === 'button' || field.type === 'image') continue;
+    if (field.name in credentials) continue;
+    payload.append(field.name, field.value);
+  }
+  // Keep the first submit button's value; some backends dispatch on it
+  const submit = form.fields.find(f => f.type === 'submit');
+  if (submit) payload.append(submit.name, submit.value);
+
+  for (const [name, value] of Object.entries(credentials)) {
+    payload.set(name, value);
+  }
+  return payload;
+}
+
+/** Finds a CSRF token exposed outside the form, e.g. <meta name="csrf-token">. */
+export function findMetaCsrfToken(html: string): { name: string; value: string } | undefined {
+  for (const meta of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const name = attribute(meta[0], 'name');
+    if (name && /csrf|xsrf/i.test(name)) {
+      const value = attribute(meta[0], 'content');
+      if (value) return { name, value };
+    }
+  }
+  return undefined;
+}
+
+/** Pulls a bearer token out of a JSON login response, if there is one. */
+export function extractToken(body: string): string | undefined {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  for (const container of [parsed, parsed?.data, parsed?.result]) {
+    if (!container || typeof container !== 'object') continue;
+    for (const key of ['access_token', 'accessToken', 'token', 'jwt', 'id_token']) {
+      if (typeof container[key] === 'string' && container[key]) return container[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Judges a login attempt. With explicit indicators every one of them must
+ * hold; without them, a 2xx/3xx response that set a cookie, issued a token
+ * or moved away from the login page, and no longer shows a password field,
+ * is a success.
+ */
+export function evaluateLogin(outcome: LoginOutcome, indicators?: LoginIndicators): { success: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+  const status = outcome.statusCode || 0;
+  if (status === 0 || status >= 400) {
+    return { success: false, reasons: ['status ' + (status || 'none')] };
+  }
+
+  const urlChanged = outcome.finalUrl.split('#')[0] !== outcome.loginUrl.split('#')[0];
+
+  if (indicators && Object.keys(indicators).length > 0) {
+    if (indicators.cookie && !outcome.cookieNames.includes(indicators.cookie)) reasons.push('cookie ' + indicators.cookie + ' not set');
+    if (indicators.urlChange && !urlChanged) reasons.push('URL did not change');
+    if (indicators.urlContains && !outcome.finalUrl.includes(indicators.urlContains)) reasons.push('URL does not contain ' + indicators.urlContains);
+    if (indicators.text && !outcome.body.includes(indicators.text)) reasons.push('text "' + indicators.text + '" not found');
+    if (indicators.absentText && outcome.body.includes(indicators.absentText)) reasons.push('text "' + indicators.absentText + '" still present');
+    return { success: reasons.length === 0, reasons };
+  }
+
+  if (outcome.newCookies === 0 && !urlChanged && !outcome.tokenIssued) reasons.push('no cookie or token issued and URL unchanged');
+  if (/<input\b[^>]*type\s*=\s*["']?password/i.test(outcome.body)) reasons.push('password field still present');
+  return { success: reasons.length === 0, reasons };
+}
+
+export interface SessionCheck {
+  statusCode?: number;
+  requestUrl: string;
+  finalUrl?: string;
+  redirectLocations: string[];
+  body?: string;
+  loginPath?: string;
+  loggedOutText?: string;
+  missingCookies: string[];
+}
+
+function samePath(url: string, path: string): boolean {
+  try {
+    return new URL(url).pathname.replace(/\/$/, '') === path.replace(/\/$/, '');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns why an authenticated request looks logged out, or undefined if
+ * the session still appears valid.
+ */
+export function detectLoggedOut(check: SessionCheck): string | undefined {
+  if (check.statusCode === 401) return 'received 401 Unauthorized';
+
+  if (check.loginPath && !samePath(check.requestUrl, check.loginPath)) {
+    if (check.redirectLocations.some(location => samePath(location, check.loginPath!))) {
+      return 'redirected to login page ' + check.loginPath;
+    }
+  }
+
+  if (check.loggedOutText && check.body?.includes(check.loggedOutText)) {
+    return 'logged-out marker "' + check.loggedOutText + '" found';
+  }
+
+  if (check.missingCookies.length > 0) {
+    return 'session cookie ' + check.missingCookies.join(', ') + ' no longer present';
+  }
+  return undefined;
+}
@@ -0,0 +1,242 @@
+import { parseForms } from './login.js';
+
+export type ParameterLocation = 'query' | 'form' | 'json' | 'cookie';
+
+export type ParameterType = 'numeric_id' | 'uuid' | 'email' | 'token' | 'boolean' | 'url' | 'string' | 'empty';
+
+export const PARAMETER_LOCATIONS: ParameterLocation[] = ['query', 'form', 'json', 'cookie'];
+
+/** One sighting of a parameter. endpoint is "METHOD url" without the query string. */
+export interface ObservedParameter {
+  name: string;
+  location: ParameterLocation;
+  endpoint: string;
+  value?: string;
+  secret?: boolean;        // a password input: its value is never kept
+}
+
+/** Accumulated view of one parameter, as stored in the Parameter table. */
+export interface ParameterRecord {
+  name: string;
+  location: ParameterLocation;
+  inferredType: ParameterType;
+  occurrences: number;
+  examples: string[];
+  endpoints: string[];
+}
+
+const MAX_EXAMPLES = 5;
+const MAX_ENDPOINTS = 20;
+const MAX_JSON_DEPTH = 4;
+
+const SECRET_NAME = /pass(word|wd)?|pwd|secret|token|api[_-]?key|auth|credential|otp|pin$/i;
+const MASK = '********';
+
+/** Guesses what kind of value a parameter carries from one sample. */
+export function inferType(value: string | undefined): ParameterType {
+  if (value === undefined || value === '') return 'empty';
+  if (/^\d{1,19}$/.test(value)) return 'numeric_id';
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return 'uuid';
+  if (/^[^\s@]+@[^\s@]+\.[A-Za-z]{2,}$/.test(value)) return 'email';
+  if (/^(true|false)$/i.test(value)) return 'boolean';
+  if (/^https?:\/\//i.test(value)) return 'url';
+  // JWTs, hex digests and long random strings
+  if (/^eyJ[\w-]+\.[\w-]+\.[\w-]*$/.test(value) || /^[0-9a-f]{24,}$/i.test(value) ||
+      (value.length >= 16 && /^[\w+\/=-]+$/.test(value) && /\d/.test(value) && /[A-Za-z]/.test(value))) {
+    return 'token';
+  }
+  return 'string';
+}
+
+/** Example values are kept for testers, but never secrets, and tokens only in part. */
+function exampleValue(value: string, type: ParameterType, secret: boolean): string {
+  if (secret) return MASK;
+  if (type === 'token') return value.slice(0, 6) + '… (' + value.length + ' chars)';
+  return value.length > 100 ? value.slice(0, 100) + '…' : value;
+}
+
+function endpointOf(method: string, url: string): string {
+  try {
+    const parsed = new URL(url);
+    return method.toUpperCase() + ' ' + parsed.origin + parsed.pathname;
+  } catch {
+    return method.toUpperCase() + ' ' + url.split('?')[0];
+  }
+}
+
+function jsonKeys(value: unknown, prefix: string, depth: number, out: Array<{ name: string; value?: string }>) {
+  if (depth > MAX_JSON_DEPTH || value === null || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    // Keys of array elements are reported once, under name[]
+    for (const item of value.slice(0, 3)) jsonKeys(item, prefix + '[]', depth + 1, out);
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? prefix + '.' + key : key;
+    if (child !== null && typeof child === 'object') {
+      jsonKeys(child, name, depth + 1, out);
+    } else {
+      out.push({ name, value: child === null || child === undefined ? undefined : String(child) });
+    }
+  }
+}
+
+/** Parameters in an outgoing request: query keys, form or JSON body keys and cookie names. */
+export function observeRequest(method: string, url: string, headers: Record<string, unknown>, body?: string): ObservedParameter[] {
+  const endpoint = endpointOf(method, url);
+  const observed: ObservedParameter[] = [];
+
+  try {
+    for (const [name, value] of new URL(url).searchParams) {
+      observed.push({ name, location: 'query', endpoint, value });
+    }
+  } catch {
+    // Unparseable URL: no query
+  }
+
+  const header = (name: string) => {
+    const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+    return key ? String(headers[key]) : '';
+  };
+
+  if (body) {
+    const contentType = header('content-type');
+    if (contentType.includes('json')) {
+      try {
+        const keys: Array<{ name: string; value?: string }> = [];
+        jsonKeys(JSON.parse(body), '', 0, keys);
+        for (const key of keys) observed.push({ ...key, location: 'json', endpoint });
+      } catch {
+        // Not actually JSON
+      }
+    } else if (!contentType || contentType.includes('x-www-form-urlencoded')) {
+      for (const [name, value] of new URLSearchParams(body)) {
+        observed.push({ name, location: 'form', endpoint, value });
+      }
+    }
+  }
+
+  for (const pair of header('cookie').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      observed.push({ name: pair.slice(0, separator).trim(), location: 'cookie', endpoint, value: pair.slice(separator + 1).trim() });
+    }
+  }
+
+  return observed;
+}
+
+/** Cookie names a response sets. */
+export function observeSetCookies(method: string, url: string, setCookies: string[] | undefined): ObservedParameter[] {
+  const endpoint = endpointOf(method, url);
+  return (setCookies || []).flatMap(cookie => {
+    const pair = cookie.split(';')[0];
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return [];
+    return [{ name: pair.slice(0, separator).trim(), location: 'cookie' as const, endpoint, value: pair.slice(separator + 1).trim() }];
+  });
+}
+
+/** Fields of every form on a page, against the endpoint the form submits to. */
+export function observeForms(html: string, pageUrl: string): ObservedParameter[] {
+  return parseForms(html, pageUrl).flatMap(form =>
+    form.fields
+      .filter(field => !['submit', 'button', 'image', 'reset'].includes(field.type))
+      .map(field => ({
+        name: field.name,
+        location: (form.method === 'GET' ? 'query' : 'form') as ParameterLocation,
+        endpoint: endpointOf(form.method, form.action),
+        // Visible inputs only show placeholders; hidden ones carry real values
+        value: field.type === 'hidden' || field.value ? field.value : undefined,
+        secret: field.type === 'password'
+      }))
+  );
+}
+
+function combineTypes(current: ParameterType, next: ParameterType): ParameterType {
+  if (current === next || next === 'empty') return current;
+  if (current === 'empty') return next;
+  return 'string';
+}
+
+/**
+ * Per-target parameter inventory held in memory during a crawl. Sightings
+ * are merged as they come in; dirty() lists the records to write back.
+ */
+export class ParameterInventory {
+  private records: Map<string, ParameterRecord> = new Map();
+  private changed: Set<string> = new Set();
+  private secretNames: Set<string> = new Set();
+  private secretValues: Set<string> = new Set();
+
+  constructor(existing: ParameterRecord[] = []) {
+    for (const record of existing) this.records.set(record.location + '|' + record.name, record);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Treats these names (password inputs, the login's password field) and
+   * values (the login password) as secret from now on, and masks any
+   * examples already kept for them.
+   */
+  protect(names: string[], values: string[] = []): void {
+    for (const name of names) this.secretNames.add(name);
+    for (const value of values) this.secretValues.add(value);
+    for (const [key, record] of this.records) {
+      const leaked = this.isSecret(record.name) || record.examples.some(e => this.secretValues.has(e));
+      if (leaked && record.examples.some(e => e !== MASK)) {
+        record.examples = [MASK];
+        this.changed.add(key);
+      }
+    }
+  }
+
+  private isSecret(name: string, value?: string): boolean {
+    // JSON keys are reported as paths: a.credentials.password, items[].pin
+    const leaf = name.split('.').pop()!.replace(/\[\]$/, '');
+    return SECRET_NAME.test(name) || this.secretNames.has(name) || this.secretNames.has(leaf) ||
+      (value !== undefined && this.secretValues.has(value));
+  }
+
+  observe(sightings: ObservedParameter[]): void {
+    for (const sighting of sightings) {
+      if (!sighting.name) continue;
+      const key = sighting.location + '|' + sighting.name;
+      const type = inferType(sighting.value);
+      const record = this.records.get(key) || {
+        name: sighting.name,
+        location: sighting.location,
+        inferredType: 'empty' as ParameterType,
+        occurrences: 0,
+        examples: [],
+        endpoints: []
+      };
+
+      if (sighting.secret) this.protect([sighting.name]);
+      const secret = this.isSecret(sighting.name, sighting.value);
+
+      record.occurrences++;
+      record.inferredType = combineTypes(record.inferredType, type);
+      if (sighting.value) {
+        const example = exampleValue(sighting.value, type, secret);
+        if (!record.examples.includes(example) && record.examples.length < MAX_EXAMPLES) record.examples.push(example);
+      }
+      if (!record.endpoints.includes(sighting.endpoint) && record.endpoints.length < MAX_ENDPOINTS) {
+        record.endpoints.push(sighting.endpoint);
+      }
+
+      this.records.set(key, record);
+      this.changed.add(key);
+    }
+  }
+
+  /** Records changed since the last call. */
+  dirty(): ParameterRecord[] {
+    const records = [...this.changed].map(key => this.records.get(key)!);
+    this.changed.clear();
+    return records;
+  }
+}
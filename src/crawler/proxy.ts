@@ -0,0 +1,111 @@
+import { TunnelFactory, directTunnel, httpConnectTunnel, socksTunnel } from './transport.js';
+
+export type ProxyType = 'socks5' | 'http' | 'direct';
+
+export interface ProxySettings {
+  type: ProxyType;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+}
+
+export class ProxyError extends Error {}
+
+/**
+ * Builds proxy settings from AppConfig values. Settings are stored as
+ * strings, so booleans and ports are coerced here. A proxyUrl (as saved by
+ * the settings page) takes precedence over the individual fields.
+ */
+export function resolveProxySettings(config: Record<string, unknown>): ProxySettings {
+  const enabled = config.proxyEnabled === undefined || config.proxyEnabled === true || config.proxyEnabled === 'true';
+  if (!enabled) return { type: 'direct' };
+
+  const url = typeof config.proxyUrl === 'string' ? config.proxyUrl.trim() : '';
+  if (url) return parseProxyUrl(url);
+
+  const type = String(config.proxyType || 'socks5').toLowerCase();
+  if (type !== 'socks5' && type !== 'http' && type !== 'direct') {
+    throw new ProxyError('Unsupported proxy type: ' + type);
+  }
+  if (type === 'direct') return { type };
+
+  const port = parseInt(String(config.proxyPort ?? ''), 10);
+  if (!config.proxyHost || isNaN(port)) {
+    throw new ProxyError('Proxy enabled but proxyHost/proxyPort are not set');
+  }
+  return {
+    type,
+    host: String(config.proxyHost),
+    port,
+    username: config.proxyUsername ? String(config.proxyUsername) : undefined,
+    password: config.proxyPassword ? String(config.proxyPassword) : undefined
+  };
+}
+
+export function parseProxyUrl(value: string): ProxySettings {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ProxyError('Invalid proxy URL: ' + value);
+  }
+
+  const scheme = url.protocol.replace(/:$/, '');
+  const type: ProxyType | undefined = scheme === 'socks5' || scheme === 'socks5h' ? 'socks5' : scheme === 'http' ? 'http' : undefined;
+  if (!type) throw new ProxyError('Unsupported proxy scheme: ' + scheme);
+
+  return {
+    type,
+    host: url.hostname,
+    port: parseInt(url.port || (type === 'socks5' ? '1080' : '8080'), 10),
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined
+  };
+}
+
+function proxyUrl(settings: ProxySettings): string {
+  const credentials = settings.username
+    ? encodeURIComponent(settings.username) + (settings.password ? ':' + encodeURIComponent(settings.password) : '') + '@'
+    : '';
+  return settings.type + '://' + credentials + settings.host + ':' + settings.port;
+}
+
+/** Human-readable description without credentials, for logs. */
+export function describeProxy(settings: ProxySettings): string {
+  if (settings.type === 'direct') return 'direct (no proxy)';
+  return settings.type + '://' + (settings.username ? settings.username + '@' : '') + settings.host + ':' + settings.port;
+}
+
+/** Tunnel for the transport; undefined means connect directly. */
+export function proxyTunnel(settings: ProxySettings, timeoutMs?: number): TunnelFactory | undefined {
+  if (settings.type === 'socks5') return socksTunnel(proxyUrl(settings));
+  if (settings.type === 'http') return httpConnectTunnel(proxyUrl(settings), timeoutMs);
+  return undefined;
+}
+
+/**
+ * Opens one tunnel to the target through the proxy, so a dead proxy, bad
+ * credentials or a proxy that cannot reach the target fail before the
+ * crawl starts instead of as a stream of request timeouts.
+ */
+export async function checkProxy(settings: ProxySettings, targetUrl: string, timeoutMs: number): Promise<void> {
+  const target = new URL(targetUrl);
+  const port = target.port ? parseInt(target.port, 10) : target.protocol === 'https:' ? 443 : 80;
+  const tunnel = proxyTunnel(settings, timeoutMs) || directTunnel();
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('timed out after ' + timeoutMs + 'ms')), timeoutMs);
+  });
+
+  try {
+    const socket = await Promise.race([tunnel(target.hostname, port), timeout]);
+    socket.destroy();
+  } catch (e) {
+    const via = settings.type === 'direct' ? 'directly' : 'via proxy ' + describeProxy(settings);
+    throw new ProxyError('Cannot reach ' + target.host + ' ' + via + ': ' + (e as Error).message);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,181 @@
+export type GreenLightStatus = 'RED' | 'YELLOW' | 'GREEN' | 'ESTABLISHED';
+
+export interface RateLimit {
+  requestsPerSecond: number;
+  maxConcurrent: number;
+}
+
+/**
+ * Per-host ceilings for each green-light status. These are the limits the
+ * navigation recommendation advertises. RED blocks navigation outright, but
+ * requests that still go out (login, session checks) get the YELLOW ceiling.
+ */
+export const GREEN_LIGHT_RATE_LIMITS: Record<GreenLightStatus, RateLimit> = {
+  RED: { requestsPerSecond: 1 / 3, maxConcurrent: 1 },
+  YELLOW: { requestsPerSecond: 1 / 3, maxConcurrent: 1 },
+  GREEN: { requestsPerSecond: 3, maxConcurrent: 3 },
+  ESTABLISHED: { requestsPerSecond: 10, maxConcurrent: 6 }
+};
+
+// Longest Retry-After we honor; anything beyond is treated as this long
+const MAX_RETRY_AFTER_MS = 10 * 60 * 1000;
+
+export function rateLimitFor(status: string | null | undefined): RateLimit {
+  return GREEN_LIGHT_RATE_LIMITS[status as GreenLightStatus] || GREEN_LIGHT_RATE_LIMITS.YELLOW;
+}
+
+/** "Max 3 requests per second" / "Max 1 request per 3 seconds". */
+export function describeRateLimit(limit: RateLimit): string {
+  if (limit.requestsPerSecond >= 1) {
+    const count = Math.floor(limit.requestsPerSecond);
+    return 'Max ' + count + ' request' + (count === 1 ? '' : 's') + ' per second';
+  }
+  return 'Max 1 request per ' + Math.round(1 / limit.requestsPerSecond) + ' seconds';
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds from now. Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now: number = Date.now()): number | undefined {
+  const raw = (Array.isArray(value) ? value[0] : value)?.trim();
+  if (!raw) return undefined;
+
+  if (/^\d+$/.test(raw)) return parseInt(raw, 10) * 1000;
+
+  const date = Date.parse(raw);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+interface HostState {
+  limit: RateLimit;
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  blockedUntil: number;
+  waiters: Array<() => void>;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Token bucket per host with a concurrency cap. Every crawler in the process
+ * goes through the same instance, so parallel jobs against one host share
+ * its budget instead of each getting their own.
+ */
+export class HostRateLimiter {
+  private hosts: Map<string, HostState> = new Map();
+
+  constructor(private defaultLimit: RateLimit = GREEN_LIGHT_RATE_LIMITS.YELLOW) {}
+
+  private state(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        limit: this.defaultLimit,
+        tokens: 1,
+        refilledAt: Date.now(),
+        active: 0,
+        blockedUntil: 0,
+        waiters: []
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  limit(host: string): RateLimit {
+    return this.state(host).limit;
+  }
+
+  setLimit(host: string, limit: RateLimit): void {
+    const state = this.state(host);
+    this.refill(state, Date.now());
+    state.limit = limit;
+    state.tokens = Math.min(state.tokens, this.burst(limit));
+    this.reschedule(state);
+  }
+
+  /**
+   * Waits for a request slot on the host. The returned function must be
+   * called once the response has been read; calling it again is a no-op.
+   */
+  acquire(host: string): Promise<() => void> {
+    const state = this.state(host);
+    return new Promise(resolve => {
+      state.waiters.push(() => {
+        state.active++;
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          state.active--;
+          this.pump(state);
+        });
+      });
+      this.pump(state);
+    });
+  }
+
+  /** Holds all requests to the host for delayMs (from a Retry-After header). */
+  backoff(host: string, delayMs: number): void {
+    const state = this.state(host);
+    state.blockedUntil = Math.max(state.blockedUntil, Date.now() + Math.min(delayMs, MAX_RETRY_AFTER_MS));
+    state.tokens = 0;
+    this.reschedule(state);
+  }
+
+  /** Milliseconds until the host accepts requests again, 0 if not backing off. */
+  blockedFor(host: string): number {
+    return Math.max(0, this.state(host).blockedUntil - Date.now());
+  }
+
+  private burst(limit: RateLimit): number {
+    return Math.max(1, Math.floor(limit.requestsPerSecond));
+  }
+
+  private refill(state: HostState, now: number): void {
+    const elapsed = (now - state.refilledAt) / 1000;
+    state.tokens = Math.min(this.burst(state.limit), state.tokens + elapsed * state.limit.requestsPerSecond);
+    state.refilledAt = now;
+  }
+
+  private reschedule(state: HostState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+    this.pump(state);
+  }
+
+  private pump(state: HostState): void {
+    if (state.timer) return;
+
+    while (state.waiters.length > 0 && state.active < state.limit.maxConcurrent) {
+      const now = Date.now();
+      if (now < state.blockedUntil) {
+        this.wake(state, state.blockedUntil - now);
+        return;
+      }
+
+      this.refill(state, now);
+      if (state.tokens < 1) {
+        this.wake(state, (1 - state.tokens) / state.limit.requestsPerSecond * 1000);
+        return;
+      }
+
+      state.tokens -= 1;
+      state.waiters.shift()!();
+    }
+  }
+
+  private wake(state: HostState, delayMs: number): void {
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      this.pump(state);
+    }, Math.ceil(delayMs));
+  }
+}
+
+/** Shared by every crawler in the process. */
+export const hostRateLimiter = new HostRateLimiter();
@@ -0,0 +1,124 @@
+/**
+ * Learned per-target request rate (AIMD): halve on every 429/403/challenge,
+ * creep back up by a small step after a run of clean responses. Stored as
+ * JSON in Target.learnedRateLimit so the next job starts where the last
+ * one left off.
+ */
+export interface LearnedRateLimit {
+  requestsPerSecond: number;
+  violations: number;
+  lastViolationAt?: string;
+  // Slowest rate at which the target has pushed back; probing stays below it
+  violationRate?: number;
+  cleanStreak: number;
+  updatedAt: string;
+}
+
+/** The RequestLog fields the estimate is built from. */
+export interface RateSample {
+  createdAt: Date;
+  responseStatus: number | null;
+  wasBlocked: boolean;
+  challengeDetected: boolean;
+}
+
+export const MIN_REQUESTS_PER_SECOND = 0.05;   // one request per 20 seconds
+export const MAX_REQUESTS_PER_SECOND = 10;
+const DEFAULT_REQUESTS_PER_SECOND = 1;
+const BACKOFF_FACTOR = 0.5;
+const PROBE_STEP = 1.1;
+const PROBE_AFTER = 20;                          // clean responses before stepping up
+const WINDOW_MS = 60 * 1000;
+
+function clamp(rps: number): number {
+  return Math.min(MAX_REQUESTS_PER_SECOND, Math.max(MIN_REQUESTS_PER_SECOND, rps));
+}
+
+export function isViolation(sample: { responseStatus?: number | null; wasBlocked?: boolean; challengeDetected?: boolean }): boolean {
+  return sample.responseStatus === 429 || sample.responseStatus === 403 || !!sample.wasBlocked || !!sample.challengeDetected;
+}
+
+// Requests per second over the window ending at index i
+function rateBefore(samples: RateSample[], i: number): number {
+  const end = samples[i].createdAt.getTime();
+  let count = 0;
+  for (let j = i; j >= 0 && end - samples[j].createdAt.getTime() <= WINDOW_MS; j--) count++;
+  return count / (WINDOW_MS / 1000);
+}
+
+/**
+ * First estimate for a target with no learned limit: half the slowest rate
+ * that drew a violation, or the busiest clean minute if there were none.
+ */
+export function estimateRateLimit(samples: RateSample[], now: Date = new Date()): LearnedRateLimit {
+  const sorted = [...samples].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  let violationRate: number | undefined;
+  let peakRate = 0;
+  let violations = 0;
+  let lastViolationAt: Date | undefined;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const rate = rateBefore(sorted, i);
+    if (isViolation(sorted[i])) {
+      violations++;
+      lastViolationAt = sorted[i].createdAt;
+      violationRate = Math.min(violationRate ?? Infinity, rate);
+    } else {
+      peakRate = Math.max(peakRate, rate);
+    }
+  }
+
+  const requestsPerSecond = violationRate !== undefined
+    ? violationRate * BACKOFF_FACTOR
+    : Math.max(DEFAULT_REQUESTS_PER_SECOND, peakRate);
+
+  return {
+    requestsPerSecond: clamp(requestsPerSecond),
+    violations,
+    lastViolationAt: lastViolationAt?.toISOString(),
+    violationRate,
+    cleanStreak: 0,
+    updatedAt: now.toISOString()
+  };
+}
+
+export function parseLearnedRateLimit(value: string | null | undefined): LearnedRateLimit | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed?.requestsPerSecond === 'number' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function recordViolation(model: LearnedRateLimit, now: Date = new Date()): LearnedRateLimit {
+  return {
+    ...model,
+    requestsPerSecond: clamp(model.requestsPerSecond * BACKOFF_FACTOR),
+    violations: model.violations + 1,
+    lastViolationAt: now.toISOString(),
+    violationRate: Math.min(model.violationRate ?? Infinity, model.requestsPerSecond),
+    cleanStreak: 0,
+    updatedAt: now.toISOString()
+  };
+}
+
+/** Counts a clean response; every PROBE_AFTER in a row raise the rate one step. */
+export function recordSuccess(model: LearnedRateLimit, now: Date = new Date()): LearnedRateLimit {
+  const cleanStreak = model.cleanStreak + 1;
+  if (cleanStreak < PROBE_AFTER) return { ...model, cleanStreak };
+
+  const ceiling = model.violationRate !== undefined ? model.violationRate * 0.9 : MAX_REQUESTS_PER_SECOND;
+  const requestsPerSecond = clamp(Math.min(ceiling, model.requestsPerSecond * PROBE_STEP));
+  return {
+    ...model,
+    // Once the ceiling is reached without trouble it was too pessimistic; let it rise too
+    violationRate: requestsPerSecond <= model.requestsPerSecond && model.violationRate !== undefined
+      ? model.violationRate * PROBE_STEP
+      : model.violationRate,
+    requestsPerSecond: Math.max(model.requestsPerSecond, requestsPerSecond),
+    cleanStreak: 0,
+    updatedAt: now.toISOString()
+  };
+}
@@ -0,0 +1,206 @@
+import { gunzipSync } from 'zlib';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface FetchedResource {
+  statusCode?: number;
+  body?: Buffer;
+}
+
+export type ResourceFetcher = (url: string) => Promise<FetchedResource>;
+
+export interface SiteDiscovery {
+  robots: RobotsPolicy | null;
+  sitemaps: string[];
+  urls: string[];
+}
+
+function compilePattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp('^' + body + (anchored ? '$' : ''));
+}
+
+/**
+ * Parsed robots.txt, resolved for a single user agent. Matching follows
+ * RFC 9309: the longest matching rule wins and Allow wins a tie.
+ */
+export class RobotsPolicy {
+  readonly sitemaps: string[];
+  readonly crawlDelay?: number;
+  private rules: RobotsRule[];
+
+  constructor(rules: RobotsRule[], sitemaps: string[], crawlDelay?: number) {
+    this.rules = rules;
+    this.sitemaps = sitemaps;
+    this.crawlDelay = crawlDelay;
+  }
+
+  static parse(text: string, userAgent: string): RobotsPolicy {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'sitemap') {
+        if (value) sitemaps.push(value);
+        continue;
+      }
+
+      if (field === 'user-agent') {
+        if (!current || !collectingAgents) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        collectingAgents = true;
+        continue;
+      }
+
+      if (!current) continue;
+      collectingAgents = false;
+
+      if (field === 'allow' || field === 'disallow') {
+        // An empty Disallow means "allow everything" and carries no rule
+        if (!value) continue;
+        current.rules.push({ allow: field === 'allow', pattern: value, regex: compilePattern(value) });
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+      }
+    }
+
+    const product = userAgent.toLowerCase();
+    const specific = groups.filter(g => g.agents.some(a => a !== '*' && product.includes(a)));
+    const selected = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+
+    const rules = selected.flatMap(g => g.rules);
+    const delays = selected.map(g => g.crawlDelay).filter((d): d is number => d !== undefined);
+
+    return new RobotsPolicy(rules, sitemaps, delays.length > 0 ? Math.max(...delays) : undefined);
+  }
+
+  isAllowed(pathWithQuery: string): boolean {
+    if (pathWithQuery === '/robots.txt') return true;
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(pathWithQuery)) continue;
+      if (!best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    return best ? best.allow : true;
+  }
+
+  get disallowCount(): number {
+    return this.rules.filter(r => !r.allow).length;
+  }
+}
+
+// The sitemaps protocol caps an uncompressed sitemap at 50 MB
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+function decodeSitemapBody(body: Buffer): string {
+  // Gzip magic bytes; servers often send .xml.gz without Content-Encoding.
+  // Anything that inflates past the cap is treated as corrupt.
+  if (body.length > 2 && body[0] === 0x1f && body[1] === 0x8b) {
+    return gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8');
+  }
+  return body.toString('utf8');
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[|\]\]>$/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
+
+/**
+ * Splits a sitemap document into page URLs (<urlset>) and nested sitemap
+ * references (<sitemapindex>).
+ */
+export function parseSitemap(body: Buffer): { urls: string[]; sitemaps: string[] } {
+  const xml = decodeSitemapBody(body);
+  const locs = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)].map(m => decodeXmlText(m[1]));
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    return { urls: [], sitemaps: locs };
+  }
+  return { urls: locs, sitemaps: [] };
+}
+
+/**
+ * Fetches robots.txt and walks every referenced sitemap (falling back to
+ * /sitemap.xml), following sitemap indexes up to maxSitemaps documents.
+ */
+export async function discoverSite(
+  baseUrl: string,
+  fetch: ResourceFetcher,
+  userAgent: string,
+  options: { maxSitemaps?: number; maxUrls?: number } = {}
+): Promise<SiteDiscovery> {
+  const maxSitemaps = options.maxSitemaps ?? 20;
+  const maxUrls = options.maxUrls ?? 1000;
+  const origin = new URL(baseUrl).origin;
+
+  let robots: RobotsPolicy | null = null;
+  const robotsResponse = await fetch(origin + '/robots.txt').catch(() => null);
+  if (robotsResponse?.statusCode === 200 && robotsResponse.body) {
+    robots = RobotsPolicy.parse(robotsResponse.body.toString('utf8'), userAgent);
+  }
+
+  const queue = robots && robots.sitemaps.length > 0 ? [...robots.sitemaps] : [origin + '/sitemap.xml'];
+  const visited: string[] = [];
+  const urls = new Set<string>();
+
+  while (queue.length > 0 && visited.length < maxSitemaps && urls.size < maxUrls) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.includes(sitemapUrl)) continue;
+    visited.push(sitemapUrl);
+
+    const response = await fetch(sitemapUrl).catch(() => null);
+    if (response?.statusCode !== 200 || !response.body) continue;
+
+    try {
+      const parsed = parseSitemap(response.body);
+      queue.push(...parsed.sitemaps);
+      for (const url of parsed.urls) {
+        if (urls.size >= maxUrls) break;
+        urls.add(url);
+      }
+    } catch {
+      // Corrupt gzip or truncated XML: skip this sitemap, keep the rest
+    }
+  }
+
+  return { robots, sitemaps: visited, urls: [...urls] };
+}
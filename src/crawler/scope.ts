@@ -0,0 +1,185 @@
+export interface ScopeRule {
+  hosts?: string[];      // exact or wildcard ("*.example.com")
+  schemes?: string[];    // "http", "https"
+  ports?: number[];
+  paths?: string[];      // globs: "*" within a segment, "**" across segments
+  pathRegex?: string[];  // JavaScript regular expressions, tested against path + query
+}
+
+export interface ScopeDefinition {
+  include: ScopeRule[];
+  exclude: ScopeRule[];
+}
+
+export interface ScopeDecision {
+  inScope: boolean;
+  reason?: string;
+}
+
+export class ScopeError extends Error {}
+
+function globToRegex(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp('^' + source + '$');
+}
+
+function hostMatches(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith('*.')) {
+    return host.endsWith(p.slice(1)) || host === p.slice(2);
+  }
+  return host === p;
+}
+
+function effectivePort(url: URL): number {
+  if (url.port) return parseInt(url.port, 10);
+  return url.protocol === 'https:' ? 443 : 80;
+}
+
+function validateRules(rules: unknown, field: string): ScopeRule[] {
+  if (rules === undefined) return [];
+  if (!Array.isArray(rules)) throw new ScopeError(field + ' must be an array of rules');
+
+  return rules.map((rule, i) => {
+    if (typeof rule !== 'object' || rule === null) throw new ScopeError(field + '[' + i + '] must be an object');
+    const { hosts, schemes, ports, paths, pathRegex } = rule as ScopeRule;
+
+    for (const [name, list] of Object.entries({ hosts, schemes, paths, pathRegex })) {
+      if (list !== undefined && (!Array.isArray(list) || list.some(v => typeof v !== 'string'))) {
+        throw new ScopeError(field + '[' + i + '].' + name + ' must be an array of strings');
+      }
+    }
+    if (ports !== undefined && (!Array.isArray(ports) || ports.some(p => !Number.isInteger(p)))) {
+      throw new ScopeError(field + '[' + i + '].ports must be an array of integers');
+    }
+    for (const pattern of pathRegex || []) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new ScopeError(field + '[' + i + '].pathRegex has an invalid expression: ' + pattern);
+      }
+    }
+
+    return {
+      hosts,
+      schemes: schemes?.map(s => s.toLowerCase().replace(/:$/, '')),
+      ports,
+      paths,
+      pathRegex
+    };
+  });
+}
+
+/**
+ * Validates user-supplied scope JSON (object or serialized string).
+ * Throws ScopeError with a field-level message on bad input.
+ */
+export function parseScope(value: unknown): ScopeDefinition {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+  if (typeof raw !== 'object' || raw === null) throw new ScopeError('Scope must be an object');
+
+  const { include, exclude } = raw as Record<string, unknown>;
+  return {
+    include: validateRules(include, 'include'),
+    exclude: validateRules(exclude, 'exclude')
+  };
+}
+
+/**
+ * Decides whether an outbound URL may be requested for a target. With no
+ * include rules the target's own hostname is the only host in scope.
+ * Exclude rules always win over include rules.
+ */
+export class ScopeEngine {
+  private definition: ScopeDefinition;
+  private compiledPaths: Map<string, RegExp> = new Map();
+  private blockedByHost: Map<string, number> = new Map();
+
+  constructor(targetUrl: string, definition?: ScopeDefinition | null) {
+    this.definition = {
+      include: definition?.include.length ? definition.include : [{ hosts: [new URL(targetUrl).hostname] }],
+      exclude: definition?.exclude || []
+    };
+  }
+
+  static fromJson(targetUrl: string, json?: string | null): ScopeEngine {
+    return new ScopeEngine(targetUrl, json ? parseScope(json) : null);
+  }
+
+  private pathPattern(pattern: string, isRegex: boolean): RegExp {
+    const key = (isRegex ? 're:' : 'glob:') + pattern;
+    let compiled = this.compiledPaths.get(key);
+    if (!compiled) {
+      compiled = isRegex ? new RegExp(pattern) : globToRegex(pattern);
+      this.compiledPaths.set(key, compiled);
+    }
+    return compiled;
+  }
+
+  private matches(rule: ScopeRule, url: URL): boolean {
+    const host = url.hostname.toLowerCase();
+    const scheme = url.protocol.replace(/:$/, '');
+    const pathWithQuery = url.pathname + url.search;
+
+    if (rule.hosts?.length && !rule.hosts.some(h => hostMatches(h, host))) return false;
+    if (rule.schemes?.length && !rule.schemes.includes(scheme)) return false;
+    if (rule.ports?.length && !rule.ports.includes(effectivePort(url))) return false;
+    if (rule.paths?.length && !rule.paths.some(p => this.pathPattern(p, false).test(url.pathname))) return false;
+    if (rule.pathRegex?.length && !rule.pathRegex.some(p => this.pathPattern(p, true).test(pathWithQuery))) return false;
+    return true;
+  }
+
+  check(rawUrl: string): ScopeDecision {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      return { inScope: false, reason: 'invalid URL' };
+    }
+
+    if (this.definition.exclude.some(rule => this.matches(rule, url))) {
+      return { inScope: false, reason: 'matched exclude rule' };
+    }
+    if (!this.definition.include.some(rule => this.matches(rule, url))) {
+      return { inScope: false, reason: 'no include rule matched' };
+    }
+    return { inScope: true };
+  }
+
+  isInScope(rawUrl: string): boolean {
+    return this.check(rawUrl).inScope;
+  }
+
+  recordBlocked(rawUrl: string): void {
+    let host = 'invalid';
+    try {
+      host = new URL(rawUrl).host;
+    } catch {
+      // Counted under "invalid"
+    }
+    this.blockedByHost.set(host, (this.blockedByHost.get(host) || 0) + 1);
+  }
+
+  get blockedCount(): number {
+    let total = 0;
+    for (const count of this.blockedByHost.values()) total += count;
+    return total;
+  }
+
+  get blockedHosts(): Record<string, number> {
+    return Object.fromEntries(this.blockedByHost);
+  }
+}
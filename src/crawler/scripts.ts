@@ -0,0 +1,129 @@
+import { normalizeUrl } from './frontier.js';
+import type { ExtractedDiscovery } from './extract.js';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Quoted strings that look like a path or absolute URL
+const STRING_LITERAL = /(['"`])((?:https?:\/\/[^\s'"`<>]+)|(?:\/[A-Za-z0-9_\-.~%!$&'()*+,;=:@\/?{}]*?))\1/g;
+const FETCH_CALL = /\bfetch\(\s*(['"`])([^'"`]+)\1\s*(?:,\s*\{([^}]{0,300})\})?/g;
+const AXIOS_CALL = /\baxios\.(get|post|put|patch|delete|head|options)\(\s*(['"`])([^'"`]+)\2/gi;
+const AXIOS_CONFIG = /\baxios\(\s*\{([^}]{0,300})\}/g;
+const GRAPHQL_OPERATION = /\b(query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)\s*[({]/g;
+const OPERATION_NAME = /\boperationName["']?\s*:\s*["']([A-Za-z_][A-Za-z0-9_]*)["']/g;
+const SOURCE_MAP = /\/[\/*][#@]\s*sourceMappingURL\s*=\s*([^\s*'"]+)/g;
+
+// Paths that are almost never API routes: static assets, MIME types, comments
+const STATIC_ASSET = /\.(png|jpe?g|gif|svg|webp|ico|woff2?|ttf|eot|otf|css|map|mp4|webm|mp3)(\?|$)/i;
+const NOT_A_ROUTE = /^\/(\/|\*|[^A-Za-z0-9_{]*$)/;
+
+const MAX_SOURCE_BYTES = 5 * 1024 * 1024;
+
+function methodFrom(options: string | undefined): string | undefined {
+  const match = options?.match(/\bmethod\s*:\s*['"`](\w+)['"`]/i);
+  const method = match?.[1].toUpperCase();
+  return method && HTTP_METHODS.includes(method) ? method : undefined;
+}
+
+/**
+ * Resolves a path found in code against the site. Template placeholders
+ * become {param}; such routes are recorded but never fetched.
+ */
+function resolveRoute(raw: string, base: string): { url: string; template: boolean } | null {
+  const template = raw.includes('${');
+  const path = raw.replace(/\$\{[^}]*\}/g, '{param}');
+  if (STATIC_ASSET.test(path) || NOT_A_ROUTE.test(path)) return null;
+  if (!path.startsWith('/') && !/^https?:\/\//i.test(path)) return null;
+
+  if (template || path.includes('{')) {
+    try {
+      return { url: new URL(path, base).toString().replace(/%7B/g, '{').replace(/%7D/g, '}'), template: true };
+    } catch {
+      return null;
+    }
+  }
+  const url = normalizeUrl(path, base);
+  return url ? { url, template: false } : null;
+}
+
+/**
+ * Scans JavaScript for the API surface it talks to: path and URL string
+ * literals, fetch/axios calls (with their method when visible), GraphQL
+ * operation names and source map references. Every result is tagged with
+ * the script it came from. Relative routes resolve against siteUrl, since
+ * bundles are usually served from a CDN but call the page's own origin.
+ */
+export function analyzeScript(source: string, scriptUrl: string, siteUrl: string = scriptUrl): ExtractedDiscovery[] {
+  const code = source.length > MAX_SOURCE_BYTES ? source.slice(0, MAX_SOURCE_BYTES) : source;
+  const found = new Map<string, ExtractedDiscovery>();
+  const add = (discovery: ExtractedDiscovery) => {
+    const key = discovery.type + '|' + discovery.value;
+    if (!found.has(key)) found.set(key, discovery);
+  };
+  const addEndpoint = (raw: string, via: string, method?: string) => {
+    const route = resolveRoute(raw, siteUrl);
+    if (!route) return;
+    add({
+      type: 'endpoint',
+      value: method ? method + ' ' + route.url : route.url,
+      details: { url: route.url, method, via, template: route.template, source: scriptUrl }
+    });
+  };
+
+  // Calls first, so an endpoint keeps the method its call site shows
+  for (const match of code.matchAll(FETCH_CALL)) {
+    addEndpoint(match[2], 'fetch', methodFrom(match[3]) || 'GET');
+  }
+  for (const match of code.matchAll(AXIOS_CALL)) {
+    addEndpoint(match[3], 'axios', match[1].toUpperCase());
+  }
+  for (const match of code.matchAll(AXIOS_CONFIG)) {
+    const url = match[1].match(/\burl\s*:\s*(['"`])([^'"`]+)\1/);
+    if (url) addEndpoint(url[2], 'axios', methodFrom(match[1]) || 'GET');
+  }
+
+  const called = new Set([...found.values()].map(d => d.details?.url));
+  for (const match of code.matchAll(STRING_LITERAL)) {
+    const route = resolveRoute(match[2], siteUrl);
+    if (route && !called.has(route.url)) addEndpoint(match[2], 'string');
+  }
+
+  for (const match of code.matchAll(GRAPHQL_OPERATION)) {
+    add({ type: 'graphql', value: match[1] + ' ' + match[2], details: { operation: match[1], name: match[2], source: scriptUrl } });
+  }
+  for (const match of code.matchAll(OPERATION_NAME)) {
+    if ([...found.values()].some(d => d.type === 'graphql' && d.details?.name === match[1])) continue;
+    add({ type: 'graphql', value: 'operation ' + match[1], details: { name: match[1], source: scriptUrl } });
+  }
+
+  for (const match of code.matchAll(SOURCE_MAP)) {
+    if (match[1].startsWith('data:')) continue;
+    try {
+      add({ type: 'sourcemap', value: new URL(match[1], scriptUrl).toString(), details: { source: scriptUrl } });
+    } catch {
+      // Malformed reference
+    }
+  }
+
+  return [...found.values()];
+}
+
+/** Bodies of <script> blocks without a src attribute. */
+export function inlineScripts(html: string): string[] {
+  const scripts: string[] = [];
+  for (const match of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+    if (/\ssrc\s*=/i.test(' ' + match[1]) || !match[2].trim()) continue;
+    scripts.push(match[2]);
+  }
+  return scripts;
+}
+
+/** Endpoints worth putting in the frontier: concrete URLs reachable with GET. */
+export function crawlableEndpoints(discoveries: ExtractedDiscovery[]): string[] {
+  return discoveries
+    .filter(d => d.type === 'endpoint' && !d.details?.template && (!d.details?.method || d.details.method === 'GET'))
+    .map(d => String(d.details!.url));
+}
+
+export function isJavaScript(contentType: string, url: string): boolean {
+  return /javascript|ecmascript/i.test(contentType) || (/\.m?js(\?|$)/i.test(new URL(url).pathname) && !/html/i.test(contentType));
+}
@@ -0,0 +1,292 @@
+import { createHash } from 'crypto';
+import type { FindingSeverity, ReportedFinding } from './findings.js';
+
+export type SensitiveKind =
+  | 'stack_trace' | 'debug_page' | 'internal_ip' | 'secret' | 'git_exposed' | 'env_exposed' | 'directory_listing';
+
+/** One match in a response. match and snippet are redacted unless scanning with redact: false. */
+export interface SensitiveHit {
+  kind: SensitiveKind;
+  name: string;
+  title: string;
+  severity: FindingSeverity;
+  cwe: number;
+  url: string;
+  location: string;        // body, or header:<name>
+  match: string;
+  snippet: string;
+  key: string;             // deduplication key within the sensitive detector
+}
+
+export interface ScanOptions {
+  redact?: boolean;
+}
+
+interface SensitivePattern {
+  kind: SensitiveKind;
+  name: string;
+  title: string;
+  severity: FindingSeverity;
+  cwe: number;
+  pattern: RegExp;         // global; group 1, when present, is the sensitive value
+  secret?: boolean;        // redact the value in reports
+  validate?: (value: string) => boolean;
+  urls?: RegExp;           // only responses for these paths
+  headers?: boolean;       // also scan header values
+  dedupe: 'value' | 'host' | 'url';
+}
+
+/** Paths probed once per crawl for exposed repository and config files. */
+export const ARTIFACT_PATHS = ['/.git/HEAD', '/.git/config', '/.env'];
+
+const SNIPPET_CONTEXT = 40;
+const MAX_SCAN_BYTES = 2 * 1024 * 1024;
+const MAX_HITS_PER_PATTERN = 5;
+
+// Values that look like secrets in code but are examples and template slots
+const PLACEHOLDER = /^(x+|\*+|\.+|0+|your[_-]|changeme|change_me|test|null|undefined|true|false|<|\$\{|\{\{|%)|example|sample|dummy|placeholder|redacted/i;
+
+/** Shannon entropy in bits per character. */
+export function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function randomLooking(value: string, minEntropy: number): boolean {
+  return !PLACEHOLDER.test(value) && entropy(value) >= minEntropy && /\d/.test(value) && /[A-Za-z]/.test(value);
+}
+
+function isPrivateIp(value: string): boolean {
+  const octets = value.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(o => !Number.isInteger(o) || o > 255)) return false;
+  const [a, b] = octets;
+  return a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+function isJwt(value: string): boolean {
+  try {
+    const header = JSON.parse(Buffer.from(value.split('.')[0], 'base64url').toString('utf8'));
+    return typeof header?.alg === 'string';
+  } catch {
+    return false;
+  }
+}
+
+const PATTERNS: SensitivePattern[] = [
+  // Stack traces
+  { kind: 'stack_trace', name: 'java', title: 'Java stack trace', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /(?:[\w$.]+(?:Exception|Error)(?::[^\n<]*)?\s*(?:<br\s*\/?>)?\s*)\bat [\w$.]+\([\w$]+\.java:\d+\)/g },
+  { kind: 'stack_trace', name: 'python', title: 'Python traceback', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /Traceback \(most recent call last\):[\s\S]{0,200}?File "[^"]+", line \d+/g },
+  { kind: 'stack_trace', name: 'php', title: 'PHP error with file path', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /(?:Fatal error|Warning|Parse error|Notice|Uncaught \w+)(?:<\/b>)?:\s+[^\n]{0,300}? in (?:<b>)?\/[\w\/.-]+\.php(?:<\/b>)? on line (?:<b>)?\d+/g },
+  { kind: 'stack_trace', name: 'dotnet', title: '.NET stack trace', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /\bat [\w.<>`]+\([^)]*\) in [A-Za-z]:\\[^\n:]+:line \d+/g },
+  { kind: 'stack_trace', name: 'node', title: 'Node.js stack trace', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /\w*Error: [^\n<]{0,200}\n\s+at (?:[\w.<>]+ )?\(?\/[\w\/.@-]+\.(?:js|ts|mjs|cjs):\d+:\d+\)?/g },
+  { kind: 'stack_trace', name: 'ruby', title: 'Ruby backtrace', severity: 'medium', cwe: 209, dedupe: 'url',
+    pattern: /\/[\w\/.-]+\.rb:\d+:in `[^']+'/g },
+
+  // Framework debug pages
+  { kind: 'debug_page', name: 'django', title: 'Django debug page (DEBUG = True)', severity: 'high', cwe: 489, dedupe: 'host',
+    pattern: /You're seeing this error because you have <code>DEBUG = True<\/code>/g },
+  { kind: 'debug_page', name: 'werkzeug', title: 'Werkzeug interactive debugger', severity: 'high', cwe: 489, dedupe: 'host',
+    pattern: /<title>[^<]*Werkzeug Debugger<\/title>|__debugger__/g },
+  { kind: 'debug_page', name: 'laravel', title: 'Laravel debug page (Whoops/Ignition)', severity: 'high', cwe: 489, dedupe: 'host',
+    pattern: /Whoops! There was an error\.|window\.ignite\(|<title>Ignition<\/title>/g },
+  { kind: 'debug_page', name: 'symfony', title: 'Symfony debug toolbar or exception page', severity: 'high', cwe: 489, dedupe: 'host',
+    pattern: /id="sfwdt[0-9a-f]+"|<div class="exception-summary|Symfony\\Component\\[\w\\]+Exception/g },
+  { kind: 'debug_page', name: 'rails', title: 'Rails development error page', severity: 'high', cwe: 489, dedupe: 'host',
+    pattern: /<h1>\s*[\w:]+ in [\w:]+#\w+\s*<\/h1>|Action Controller: Exception caught/g },
+  { kind: 'debug_page', name: 'aspnet', title: 'ASP.NET detailed error page', severity: 'medium', cwe: 489, dedupe: 'host',
+    pattern: /Server Error in '[^']*' Application\.[\s\S]{0,2000}?Version Information:/g },
+
+  // Internal addresses
+  { kind: 'internal_ip', name: 'rfc1918', title: 'Internal IP address disclosed', severity: 'low', cwe: 200, dedupe: 'value', headers: true,
+    pattern: /(?<![\w.])((?:10|172|192)\.\d{1,3}\.\d{1,3}\.\d{1,3})(?![\w.])/g, validate: isPrivateIp },
+
+  // Credentials in code and responses
+  { kind: 'secret', name: 'aws_access_key', title: 'AWS access key ID', severity: 'high', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g, validate: v => randomLooking(v.slice(4), 3) },
+  { kind: 'secret', name: 'private_key', title: 'Private key', severity: 'critical', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /(-----BEGIN (?:RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----[\s\S]{20,}?-----END (?:RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----)/g },
+  { kind: 'secret', name: 'github_token', title: 'GitHub token', severity: 'high', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,255})\b/g, validate: v => randomLooking(v.slice(4), 3.5) },
+  { kind: 'secret', name: 'slack_token', title: 'Slack token', severity: 'high', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,72})\b/g, validate: v => randomLooking(v, 3.5) },
+  { kind: 'secret', name: 'stripe_secret', title: 'Stripe secret key', severity: 'critical', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b((?:sk|rk)_live_[0-9a-zA-Z]{24,99})\b/g, validate: v => randomLooking(v.slice(8), 3.5) },
+  { kind: 'secret', name: 'google_api_key', title: 'Google API key', severity: 'low', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/g, validate: v => randomLooking(v.slice(4), 3.5) },
+  { kind: 'secret', name: 'jwt', title: 'JSON Web Token in response', severity: 'medium', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g, validate: isJwt },
+  { kind: 'secret', name: 'assignment', title: 'Hardcoded credential', severity: 'medium', cwe: 798, dedupe: 'value', secret: true,
+    pattern: /\b[\w-]*(?:api[_-]?key|apikey|secret|access[_-]?token|auth[_-]?token|client[_-]?secret|passwd|password)["']?\s*[:=]\s*["'`]([^"'`\s]{16,128})["'`]/gi,
+    validate: v => randomLooking(v, 3.5) },
+
+  // Exposed repository and config files, recognized by content wherever a soft-404 would answer
+  { kind: 'git_exposed', name: 'git_head', title: 'Git repository exposed (.git/HEAD)', severity: 'high', cwe: 527, dedupe: 'host',
+    urls: /\/\.git\/HEAD$/, pattern: /^(ref: refs\/[\w\/.-]+|[0-9a-f]{40})\s*$/g },
+  { kind: 'git_exposed', name: 'git_config', title: 'Git repository exposed (.git/config)', severity: 'high', cwe: 527, dedupe: 'host',
+    urls: /\/\.git\/config$/, pattern: /^\[core\][\s\S]*?repositoryformatversion/g },
+  { kind: 'env_exposed', name: 'dotenv', title: 'Environment file exposed (.env)', severity: 'high', cwe: 538, dedupe: 'url', secret: true,
+    urls: /\/\.env(\.[\w-]+)?$/, pattern: /^(?:[A-Z][A-Z0-9_]*=[^\n]*\n?){3,}/gm },
+
+  // Directory listings
+  { kind: 'directory_listing', name: 'index_of', title: 'Directory listing enabled', severity: 'medium', cwe: 548, dedupe: 'url',
+    pattern: /<title>Index of \/[^<]*<\/title>|<h1>Index of \/[^<]*<\/h1>|<title>Directory listing for \/[^<]*<\/title>|\[To Parent Directory\]/g }
+];
+
+/** Keeps enough of a secret to recognize it, never enough to use it. */
+export function redactValue(value: string): string {
+  if (value.includes('\n')) {
+    // Multi-line values (.env files, keys): names stay, values go
+    return value.split('\n').map(line => line.replace(/=(.+)$/, (_, v) => '=' + redactValue(v))).join('\n');
+  }
+  const visible = value.length > 12 ? 4 : 0;
+  return value.slice(0, visible) + '[REDACTED ' + value.length + ' chars]';
+}
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+function clip(value: string): string {
+  return value.length > 300 ? value.slice(0, 300) + '…' : value;
+}
+
+interface Match {
+  pattern: SensitivePattern;
+  value: string;
+  index: number;
+}
+
+function findMatches(text: string, url: URL, patterns: SensitivePattern[]): Match[] {
+  const matches: Match[] = [];
+  for (const pattern of patterns) {
+    let count = 0;
+    for (const match of text.matchAll(pattern.pattern)) {
+      const value = match[1] ?? match[0];
+      if (pattern.validate && !pattern.validate(value)) continue;
+      // The target's own address is not a disclosure
+      if (pattern.kind === 'internal_ip' && value === url.hostname) continue;
+      matches.push({ pattern, value, index: match.index! + match[0].indexOf(value) });
+      if (++count >= MAX_HITS_PER_PATTERN) break;
+    }
+  }
+  return matches;
+}
+
+/**
+ * The text with every secret replaced by its redacted form, so that no
+ * snippet shows a neighbouring secret in clear. position() maps an index
+ * in the original text to the redacted one.
+ */
+function redactSecrets(text: string, matches: Match[]): { text: string; position: (index: number) => number } {
+  const spans = matches
+    .filter(m => m.pattern.secret)
+    .map(m => ({ start: m.index, end: m.index + m.value.length, replacement: redactValue(m.value) }))
+    .sort((a, b) => a.start - b.start)
+    .filter((span, i, all) => i === 0 || span.start >= all[i - 1].end);
+
+  let redacted = '';
+  let cursor = 0;
+  const shifts: Array<{ at: number; shift: number }> = [];
+  let shift = 0;
+  for (const span of spans) {
+    redacted += text.slice(cursor, span.start) + span.replacement;
+    shift += span.replacement.length - (span.end - span.start);
+    shifts.push({ at: span.end, shift });
+    cursor = span.end;
+  }
+  redacted += text.slice(cursor);
+
+  return {
+    text: redacted,
+    position: (index: number) => index + (shifts.filter(s => s.at <= index).pop()?.shift ?? 0)
+  };
+}
+
+function scanText(text: string, location: string, url: URL, patterns: SensitivePattern[], redact: boolean): SensitiveHit[] {
+  let matches = findMatches(text, url, patterns);
+  if (redact) {
+    // Whatever sits inside a secret (the host line of a .env) is reported as part of that secret
+    const secrets = matches.filter(m => m.pattern.secret);
+    matches = matches.filter(m => m.pattern.secret || !secrets.some(s => m.index >= s.index && m.index < s.index + s.value.length));
+  }
+  const view = redact ? redactSecrets(text, matches) : { text, position: (index: number) => index };
+
+  return matches.map(({ pattern, value, index }) => {
+    const shown = pattern.secret && redact ? redactValue(value) : value;
+    const at = view.position(index);
+    const start = Math.max(0, at - SNIPPET_CONTEXT);
+    const end = Math.min(view.text.length, at + shown.length + SNIPPET_CONTEXT);
+    const snippet = (start > 0 ? '…' : '') + view.text.slice(start, at) + clip(shown) + view.text.slice(at + shown.length, end) + (end < view.text.length ? '…' : '');
+
+    // A secret is one finding whichever patterns recognize it
+    const key = pattern.dedupe === 'value'
+      ? (pattern.secret ? pattern.kind + ' ' + digest(value) : pattern.name + ' ' + value)
+      : pattern.dedupe === 'host' ? pattern.name + ' ' + url.host : pattern.name + ' ' + url.origin + url.pathname;
+
+    return {
+      kind: pattern.kind,
+      name: pattern.name,
+      title: pattern.title,
+      severity: pattern.severity,
+      cwe: pattern.cwe,
+      url: url.toString(),
+      location,
+      match: clip(shown),
+      snippet: snippet.replace(/\s+/g, ' ').trim(),
+      key
+    };
+  });
+}
+
+/**
+ * Looks through one response for information it should not carry: stack
+ * traces, framework debug pages, internal IP addresses, credentials, and
+ * the contents of .git and .env files. Every pattern validates what it
+ * matched (octet ranges, entropy, token structure) before reporting.
+ * Secrets are redacted in the result unless options.redact is false.
+ */
+export function scanResponse(url: string, headers: Record<string, unknown>, body: string | undefined, options: ScanOptions = {}): SensitiveHit[] {
+  const redact = options.redact ?? true;
+  const parsed = new URL(url);
+  const patterns = PATTERNS.filter(p => !p.urls || p.urls.test(parsed.pathname));
+  const hits: SensitiveHit[] = [];
+
+  if (body) {
+    hits.push(...scanText(body.length > MAX_SCAN_BYTES ? body.slice(0, MAX_SCAN_BYTES) : body, 'body', parsed, patterns, redact));
+  }
+  const headerPatterns = patterns.filter(p => p.headers);
+  for (const [name, value] of Object.entries(headers)) {
+    const values = Array.isArray(value) ? value.map(String) : [String(value)];
+    for (const text of values) hits.push(...scanText(text, 'header:' + name.toLowerCase(), parsed, headerPatterns, redact));
+  }
+
+  // Same key twice in one response (a key repeated in a bundle) is one hit
+  const seen = new Set<string>();
+  return hits.filter(hit => !seen.has(hit.key) && !!seen.add(hit.key));
+}
+
+/** Hits as findings of the sensitive detector; scan with redaction on for anything stored. */
+export function sensitiveFindings(hits: SensitiveHit[], requestLogId?: string): ReportedFinding[] {
+  return hits.map(hit => ({
+    detector: 'sensitive',
+    key: hit.key,
+    title: hit.title + ' (' + new URL(hit.url).host + ')',
+    severity: hit.severity,
+    confidence: hit.kind === 'secret' && hit.name === 'assignment' ? 60 : 90,
+    cwe: hit.cwe,
+    url: hit.url,
+    evidence: { kind: hit.kind, pattern: hit.name, location: hit.location, match: hit.match, snippet: hit.snippet },
+    requestLogId
+  }));
+}
@@ -0,0 +1,152 @@
+import type { TechCategory } from './fingerprint.js';
+
+/**
+ * One technology and the traces it leaves. Header rules map a lower-case
+ * header name to a value pattern (true: the header being present is
+ * enough); cookie rules match cookie names; html and script rules match
+ * the page and its <script src> URLs. The first capture group of a
+ * matching pattern, when there is one, is the version.
+ */
+export interface TechSignature {
+  name: string;
+  category: TechCategory;
+  headers?: Record<string, RegExp | true>;
+  cookies?: RegExp[];
+  html?: RegExp[];
+  scripts?: RegExp[];
+  favicon?: number[];      // Shodan-style mmh3 hashes (http.favicon.hash)
+  weight?: number;         // overrides the per-source weight for weak signals
+  advice?: string;         // what the crawler should do differently when this is in front of it
+}
+
+export const SIGNATURES: TechSignature[] = [
+  // Web servers
+  { name: 'nginx', category: 'server', headers: { 'server': /^nginx(?:\/([\d.]+))?/i } },
+  { name: 'Apache HTTP Server', category: 'server', headers: { 'server': /^apache(?:\/([\d.]+))?(?:\s|$)/i } },
+  { name: 'Microsoft IIS', category: 'server', headers: { 'server': /^microsoft-iis(?:\/([\d.]+))?/i } },
+  { name: 'LiteSpeed', category: 'server', headers: { 'server': /^litespeed/i } },
+  { name: 'OpenResty', category: 'server', headers: { 'server': /^openresty(?:\/([\d.]+))?/i } },
+  { name: 'Caddy', category: 'server', headers: { 'server': /^caddy/i } },
+  { name: 'Apache Tomcat', category: 'server', headers: { 'server': /^apache-coyote/i }, html: [/Apache Tomcat\/([\d.]+)/] },
+  { name: 'Envoy', category: 'server', headers: { 'server': /^envoy/i, 'x-envoy-upstream-service-time': true } },
+  { name: 'Gunicorn', category: 'server', headers: { 'server': /^gunicorn(?:\/([\d.]+))?/i } },
+  { name: 'Kestrel', category: 'server', headers: { 'server': /^kestrel/i } },
+  { name: 'Varnish', category: 'server', headers: { 'x-varnish': true, 'via': /varnish/i } },
+
+  // Languages and frameworks
+  { name: 'PHP', category: 'framework', headers: { 'x-powered-by': /php(?:\/([\d.]+))?/i }, cookies: [/^PHPSESSID$/] },
+  {
+    name: 'ASP.NET',
+    category: 'framework',
+    headers: { 'x-powered-by': /asp\.net/i, 'x-aspnet-version': /([\d.]+)/, 'x-aspnetmvc-version': true },
+    cookies: [/^ASP\.NET_SessionId$/, /^\.AspNetCore\./],
+    html: [/<input[^>]+name="__VIEWSTATE"/i]
+  },
+  { name: 'Express', category: 'framework', headers: { 'x-powered-by': /^express$/i } },
+  { name: 'Java Servlet', category: 'framework', cookies: [/^JSESSIONID$/], weight: 50 },
+  { name: 'Spring Boot', category: 'framework', html: [/Whitelabel Error Page/], favicon: [116323821] },
+  { name: 'Django', category: 'framework', cookies: [/^csrftoken$/, /^django_language$/], html: [/name=["']csrfmiddlewaretoken["']/], weight: 50 },
+  { name: 'Laravel', category: 'framework', cookies: [/^laravel_session$/] },
+  { name: 'Ruby on Rails', category: 'framework', cookies: [/^_[a-z0-9_]+_session$/], html: [/<meta name="csrf-param" content="authenticity_token"/], weight: 40 },
+  {
+    name: 'Next.js',
+    category: 'framework',
+    headers: { 'x-powered-by': /next\.js\s*([\d.]+)?/i },
+    html: [/<script id="__NEXT_DATA__"/],
+    scripts: [/\/_next\/static\//]
+  },
+  { name: 'Nuxt', category: 'framework', html: [/window\.__NUXT__/], scripts: [/\/_nuxt\//] },
+  { name: 'React', category: 'framework', html: [/data-reactroot/], scripts: [/react(?:-dom)?(?:\.production)?(?:\.min)?\.js/i] },
+  { name: 'Angular', category: 'framework', html: [/ng-version="([\d.]+)"/] },
+  { name: 'Vue.js', category: 'framework', html: [/\sdata-v-[0-9a-f]{8}/], scripts: [/vue(?:\.runtime)?(?:\.global)?(?:\.prod)?(?:\.min)?\.js/i], weight: 50 },
+  { name: 'jQuery', category: 'framework', scripts: [/jquery[-.]([\d.]+\d)(?:\.min)?\.js/i, /jquery(?:\.min)?\.js/i] },
+
+  // Content management systems
+  {
+    name: 'WordPress',
+    category: 'cms',
+    headers: { 'link': /rel="https:\/\/api\.w\.org\/"/ },
+    cookies: [/^wordpress_logged_in_/, /^wp-settings-/],
+    html: [/<meta name="generator" content="WordPress ?([\d.]+)?"/i, /\/wp-content\//, /\/wp-includes\//]
+  },
+  {
+    name: 'Drupal',
+    category: 'cms',
+    headers: { 'x-generator': /drupal ?(\d+)?/i, 'x-drupal-cache': true },
+    html: [/<meta name="generator" content="Drupal ?(\d+)?/i, /\/sites\/default\/files\//]
+  },
+  { name: 'Joomla', category: 'cms', html: [/<meta name="generator" content="Joomla/i, /\/media\/jui\//] },
+  { name: 'Magento', category: 'cms', html: [/Mage\.Cookies/, /\/static\/version\d+\/frontend\//] },
+  { name: 'Shopify', category: 'cms', headers: { 'x-shopid': true, 'x-shopify-stage': true }, scripts: [/cdn\.shopify\.com/] },
+  { name: 'Wix', category: 'cms', headers: { 'x-wix-request-id': true }, html: [/static\.wixstatic\.com/] },
+  { name: 'Squarespace', category: 'cms', html: [/static1\.squarespace\.com/] },
+  { name: 'Ghost', category: 'cms', html: [/<meta name="generator" content="Ghost ?([\d.]+)?"/i] },
+
+  // CDNs
+  {
+    name: 'Cloudflare',
+    category: 'cdn',
+    headers: { 'server': /^cloudflare/i, 'cf-ray': true, 'cf-cache-status': true },
+    advice: 'Cloudflare edge: keep the TLS and header fingerprint of the browser DNA consistent between requests'
+  },
+  {
+    name: 'Akamai',
+    category: 'cdn',
+    headers: { 'server': /^akamaighost/i, 'x-akamai-transformed': true, 'akamai-grn': true },
+    advice: 'Akamai edge: blocks are served by the edge itself, so a 403 does not mean the origin saw the request'
+  },
+  { name: 'Fastly', category: 'cdn', headers: { 'x-fastly-request-id': true, 'fastly-debug-digest': true, 'x-served-by': /^cache-/ } },
+  { name: 'Amazon CloudFront', category: 'cdn', headers: { 'x-amz-cf-id': true, 'x-amz-cf-pop': true, 'via': /cloudfront/i } },
+  { name: 'Azure Front Door', category: 'cdn', headers: { 'x-azure-ref': true } },
+  { name: 'Azion', category: 'cdn', headers: { 'server': /^azion/i } },
+  { name: 'Vercel', category: 'cdn', headers: { 'server': /^vercel/i, 'x-vercel-id': true } },
+  { name: 'Netlify', category: 'cdn', headers: { 'server': /^netlify/i, 'x-nf-request-id': true } },
+  { name: 'KeyCDN', category: 'cdn', headers: { 'server': /^keycdn-engine/i } },
+
+  // WAFs and bot management
+  {
+    name: 'Cloudflare Bot Management',
+    category: 'waf',
+    cookies: [/^__cf_bm$/, /^cf_clearance$/],
+    html: [/\/cdn-cgi\/challenge-platform\//, /Attention Required! \| Cloudflare/],
+    advice: 'Cloudflare bot scoring is active: solve JavaScript challenges in the browser crawler and reuse cf_clearance'
+  },
+  {
+    name: 'Akamai Bot Manager',
+    category: 'waf',
+    cookies: [/^_abck$/, /^bm_sz$/, /^ak_bmsc$/],
+    advice: 'Akamai Bot Manager sets _abck from sensor data: plain HTTP requests will be scored as bots, prefer the browser crawler'
+  },
+  {
+    name: 'AWS WAF',
+    category: 'waf',
+    headers: { 'x-amzn-waf-action': true },
+    cookies: [/^aws-waf-token$/],
+    advice: 'AWS WAF rate-based rules count per IP over five minutes: keep a steady, low request rate'
+  },
+  {
+    name: 'Imperva Incapsula',
+    category: 'waf',
+    headers: { 'x-iinfo': true, 'x-cdn': /incapsula/i },
+    cookies: [/^incap_ses_/, /^visid_incap_/],
+    advice: 'Imperva ties visid_incap to the client fingerprint: keep cookies and DNA together for the whole session'
+  },
+  { name: 'Sucuri', category: 'waf', headers: { 'server': /^sucuri/i, 'x-sucuri-id': true }, advice: 'Sucuri firewall: avoid bursts, it blocks by IP for several minutes' },
+  {
+    name: 'F5 BIG-IP',
+    category: 'waf',
+    headers: { 'server': /^big-?ip/i },
+    cookies: [/^BIGipServer/, /^TS[0-9a-f]{6,8}$/],
+    favicon: [-335242539],
+    advice: 'F5 BIG-IP ASM: TS cookies must be returned unchanged or requests are flagged'
+  },
+  { name: 'ModSecurity', category: 'waf', headers: { 'server': /mod_security/i }, html: [/This error was generated by Mod_Security/i] },
+  { name: 'Barracuda', category: 'waf', cookies: [/^barra_counter_session$/] },
+  { name: 'DataDome', category: 'waf', headers: { 'x-datadome': true }, cookies: [/^datadome$/], advice: 'DataDome: headless browsers are fingerprinted, keep interaction DNA human-like' },
+  { name: 'PerimeterX', category: 'waf', cookies: [/^_px3$/, /^_pxhd$/], scripts: [/client\.perimeterx\.net|\/px\/client\/main\.min\.js/] },
+  { name: 'Wordfence', category: 'waf', html: [/Generated by Wordfence/i] },
+
+  // Applications with well-known favicons
+  { name: 'Jenkins', category: 'application', headers: { 'x-jenkins': /([\d.]+)/ }, favicon: [81586312] },
+  { name: 'GitLab', category: 'application', html: [/<meta content="GitLab" property="og:site_name"/], favicon: [1278323681] }
+];
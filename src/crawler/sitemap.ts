@@ -0,0 +1,185 @@
+/** What is known about a URL from one source: a logged request, the crawl frontier or a parameter's endpoints. */
+export interface SiteObservation {
+  url: string;
+  method?: string;
+  status?: number;
+  contentType?: string;
+  parameters?: string[];
+  authRequired?: boolean;
+  firstSeen: Date;
+  lastSeen?: Date;
+}
+
+export interface SiteMapNode {
+  name: string;            // host, or one path segment
+  type: 'host' | 'directory' | 'resource';
+  url: string;             // origin + path, without query
+  statusCodes: number[];
+  methods: string[];
+  contentTypes: string[];
+  parameters: string[];
+  authRequired: boolean;
+  firstSeen?: Date;
+  lastSeen?: Date;
+  resources: number;       // resources at or below this node
+  children: SiteMapNode[];
+}
+
+export type SiteMapFormat = 'json' | 'csv' | 'urls';
+
+export const SITEMAP_FORMATS: SiteMapFormat[] = ['json', 'csv', 'urls'];
+
+/** Frontier outcomes that mean the URL is not a resource of the target in its own right. */
+export const SITEMAP_EXCLUDED_STATUSES = ['soft_404', 'duplicate', 'out_of_scope', 'redirect_refused'];
+
+const CSV_COLUMNS = ['url', 'host', 'path', 'methods', 'status_codes', 'content_types', 'parameters', 'auth_required', 'first_seen', 'last_seen'];
+
+// Where sites send visitors who need to log in first
+const LOGIN_PATH = /\/(log-?in|sign-?in|auth(enticate)?|sso|account\/login)\b/i;
+
+/** Whether a response says the resource needs a session: 401, or a redirect to a login page. */
+export function requiresAuth(status: number | undefined, location: string | undefined, loginPath?: string): boolean {
+  if (status === 401) return true;
+  if (!status || status < 300 || status >= 400 || !location) return false;
+  try {
+    const path = new URL(location, 'http://placeholder').pathname;
+    return (!!loginPath && path === loginPath) || LOGIN_PATH.test(path);
+  } catch {
+    return false;
+  }
+}
+
+function createNode(name: string, type: SiteMapNode['type'], url: string): SiteMapNode {
+  return { name, type, url, statusCodes: [], methods: [], contentTypes: [], parameters: [], authRequired: false, resources: 0, children: [] };
+}
+
+function addUnique<T>(list: T[], value: T | undefined) {
+  if (value !== undefined && value !== '' && !list.includes(value)) list.push(value);
+}
+
+function record(node: SiteMapNode, observation: SiteObservation, parameters: string[]) {
+  if (node.type === 'directory') node.type = 'resource';
+  addUnique(node.statusCodes, observation.status);
+  addUnique(node.methods, observation.method?.toUpperCase());
+  addUnique(node.contentTypes, observation.contentType?.split(';')[0].trim().toLowerCase());
+  for (const name of parameters) addUnique(node.parameters, name);
+  node.authRequired = node.authRequired || !!observation.authRequired;
+  const lastSeen = observation.lastSeen || observation.firstSeen;
+  if (!node.firstSeen || observation.firstSeen < node.firstSeen) node.firstSeen = observation.firstSeen;
+  if (!node.lastSeen || lastSeen > node.lastSeen) node.lastSeen = lastSeen;
+}
+
+/** Directories were only passed through; a host is a resource once its root page was seen. */
+function isResource(node: SiteMapNode): boolean {
+  return node.type === 'resource' || (node.type === 'host' && !!node.lastSeen);
+}
+
+function segmentName(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function finish(node: SiteMapNode): number {
+  node.statusCodes.sort((a, b) => a - b);
+  node.methods.sort();
+  node.contentTypes.sort();
+  node.parameters.sort();
+  node.children.sort((a, b) => a.name.localeCompare(b.name));
+  node.resources = (isResource(node) ? 1 : 0) + node.children.reduce((sum, child) => sum + finish(child), 0);
+  return node.resources;
+}
+
+/**
+ * Folds observations into a host → path → resource tree. Every URL with
+ * the same origin and path is one resource; query strings only contribute
+ * parameter names. Path segments that were never requested themselves are
+ * directories.
+ */
+export function buildSiteMap(observations: SiteObservation[]): SiteMapNode[] {
+  const hosts = new Map<string, SiteMapNode>();
+  const index = new Map<string, SiteMapNode>();
+
+  for (const observation of observations) {
+    let url: URL;
+    try {
+      url = new URL(observation.url);
+    } catch {
+      continue;
+    }
+
+    let node = hosts.get(url.origin);
+    if (!node) {
+      node = createNode(url.host, 'host', url.origin + '/');
+      hosts.set(url.origin, node);
+    }
+
+    let path = '';
+    for (const segment of url.pathname.split('/').filter(Boolean)) {
+      path += '/' + segment;
+      const key = url.origin + path;
+      let child = index.get(key);
+      if (!child) {
+        child = createNode(segmentName(segment), 'directory', key);
+        index.set(key, child);
+        node.children.push(child);
+      }
+      node = child;
+    }
+
+    // The root page's details live on the host node
+    record(node, observation, [...url.searchParams.keys(), ...(observation.parameters || [])]);
+  }
+
+  const tree = [...hosts.values()].sort((a, b) => a.name.localeCompare(b.name));
+  for (const host of tree) finish(host);
+  return tree;
+}
+
+function walk(nodes: SiteMapNode[], visit: (node: SiteMapNode) => void) {
+  for (const node of nodes) {
+    visit(node);
+    walk(node.children, visit);
+  }
+}
+
+/** Every resource in the tree, hosts included when their root page was seen. */
+export function siteMapResources(tree: SiteMapNode[]): SiteMapNode[] {
+  const resources: SiteMapNode[] = [];
+  walk(tree, node => {
+    if (isResource(node)) resources.push(node);
+  });
+  return resources;
+}
+
+export function siteMapUrls(tree: SiteMapNode[]): string {
+  return siteMapResources(tree).map(node => node.url).join('\n') + '\n';
+}
+
+function csvField(value: string): string {
+  // Parameter names come from the target; spreadsheets would run one starting with = as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? "'" + value : value;
+  return /[",\n\r]/.test(safe) ? '"' + safe.replace(/"/g, '""') + '"' : safe;
+}
+
+/** One row per resource; list columns are space-separated. */
+export function siteMapCsv(tree: SiteMapNode[]): string {
+  const rows = siteMapResources(tree).map(node => {
+    const url = new URL(node.url);
+    return [
+      node.url,
+      url.host,
+      url.pathname,
+      node.methods.join(' '),
+      node.statusCodes.join(' '),
+      node.contentTypes.join(' '),
+      node.parameters.join(' '),
+      String(node.authRequired),
+      node.firstSeen?.toISOString() || '',
+      node.lastSeen?.toISOString() || ''
+    ].map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,154 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** The parts of a response the detector compares. */
+export interface ProbeResponse {
+  statusCode?: number;
+  finalUrl?: string;
+  body?: string;
+}
+
+export interface Soft404Baseline {
+  probeUrl: string;
+  statusCode: number;
+  finalUrl: string;
+  length: number;
+  shingles: Set<string>;
+}
+
+export type ProbeFetcher = (url: string) => Promise<ProbeResponse>;
+
+const SIMILARITY_THRESHOLD = 0.9;
+const SHINGLE_SIZE = 4;
+
+// Long mixed letter/digit runs: CSRF tokens, nonces, session and cache-buster ids
+const VOLATILE_TOKEN = /\b(?=[A-Za-z0-9+\/_-]*\d)(?=[A-Za-z0-9+\/_-]*[A-Za-z])[A-Za-z0-9+\/=_-]{16,}/g;
+
+function randomName(length: number): string {
+  return randomBytes(length).toString('hex').slice(0, length);
+}
+
+/** Paths that should not exist: a bare name, a file and a nested directory. */
+export function probePaths(): string[] {
+  return [
+    '/' + randomName(12),
+    '/' + randomName(10) + '.html',
+    '/' + randomName(8) + '/' + randomName(8)
+  ];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Canonical form of a response body: the requested path (which "not found"
+ * pages like to echo back), comments, tokens, digits and whitespace are
+ * normalized away so that two renders of the same page compare equal.
+ */
+export function normalizeContent(body: string, url: string): string {
+  let text = body;
+  try {
+    const { pathname } = new URL(url);
+    const echoes = [pathname, decodeURIComponent(pathname)].filter(value => value.length > 1);
+    for (const echo of new Set(echoes)) {
+      text = text.replace(new RegExp(escapeRegExp(echo), 'g'), '');
+    }
+  } catch {
+    // Not a URL: compare the body as-is
+  }
+
+  return text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(VOLATILE_TOKEN, 'T')
+    .replace(/\d+/g, '0')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/** Hash used to spot identical pages served under different URLs. */
+export function contentHash(body: string | Buffer, url: string): string {
+  const content = typeof body === 'string' ? normalizeContent(body, url) : body;
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function shingles(normalized: string): Set<string> {
+  const words = normalized.split(/[^a-z0-9]+/).filter(Boolean);
+  const set = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    set.add(words.join(' '));
+    return set;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    set.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return set;
+}
+
+/** Jaccard similarity of two shingle sets, 0 to 1. */
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Recognizes a target's "page not found" template. Learned by requesting
+ * a few paths that cannot exist; any 2xx answer to those is the soft-404
+ * baseline that later responses are compared against.
+ */
+export class Soft404Detector {
+  readonly baselines: Soft404Baseline[];
+
+  constructor(baselines: Soft404Baseline[]) {
+    this.baselines = baselines;
+  }
+
+  static async learn(baseUrl: string, fetch: ProbeFetcher): Promise<Soft404Detector> {
+    const origin = new URL(baseUrl).origin;
+    const baselines: Soft404Baseline[] = [];
+
+    for (const path of probePaths()) {
+      const probeUrl = origin + path;
+      const response = await fetch(probeUrl).catch(() => null);
+      if (!response?.statusCode || response.statusCode < 200 || response.statusCode >= 300) continue;
+
+      const normalized = normalizeContent(response.body || '', probeUrl);
+      baselines.push({
+        probeUrl,
+        statusCode: response.statusCode,
+        finalUrl: response.finalUrl || probeUrl,
+        length: normalized.length,
+        shingles: shingles(normalized)
+      });
+    }
+    return new Soft404Detector(baselines);
+  }
+
+  /** True when the target answers missing pages with a 2xx. */
+  get active(): boolean {
+    return this.baselines.length > 0;
+  }
+
+  matches(url: string, response: ProbeResponse): boolean {
+    if (!this.active || !response.statusCode || response.statusCode < 200 || response.statusCode >= 300) return false;
+
+    const normalized = normalizeContent(response.body || '', url);
+    let candidate: Set<string> | undefined;
+    for (const baseline of this.baselines) {
+      // Probes that redirected to a real page (usually the home page): that page itself is fine
+      if (url === baseline.finalUrl && baseline.finalUrl !== baseline.probeUrl) continue;
+
+      const shorter = Math.min(normalized.length, baseline.length);
+      const longer = Math.max(normalized.length, baseline.length);
+      if (longer > 0 && shorter / longer < 0.5) continue;
+
+      candidate = candidate || shingles(normalized);
+      if (similarity(candidate, baseline.shingles) >= SIMILARITY_THRESHOLD) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,395 @@
+import http from 'http';
+import https from 'https';
+import http2 from 'http2';
+import net from 'net';
+import tls from 'tls';
+import { Duplex } from 'stream';
+import { SocksClient } from 'socks';
+
+export type HttpVersion = '1.1' | '2';
+
+/** Opens a raw TCP stream to host:port, directly or through a proxy. */
+export type TunnelFactory = (host: string, port: number) => Promise<Duplex>;
+
+export interface TransportRequest {
+  url: URL;
+  method: string;
+  headers: Record<string, string | number>;
+  body?: string | Buffer;
+  timeoutMs: number;
+  maxBodyBytes?: number;
+}
+
+export interface TransportResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  httpVersion: string;
+  truncated?: boolean;
+}
+
+export interface TransportOptions {
+  httpVersion?: string;
+  agent?: http.Agent;
+  tunnel?: TunnelFactory;
+  maxSockets?: number;
+}
+
+// Connection-specific headers are illegal in HTTP/2 (RFC 9113 §8.2.2)
+const H2_FORBIDDEN_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade', 'host'];
+
+export function parseHttpVersion(value?: string): HttpVersion {
+  return value && /^(h2|http\/2|2(\.0)?)$/i.test(value.trim()) ? '2' : '1.1';
+}
+
+export function directTunnel(): TunnelFactory {
+  return (host, port) => new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+export function socksTunnel(proxyUrl: string): TunnelFactory {
+  const proxy = new URL(proxyUrl);
+  return async (host, port) => {
+    const { socket } = await SocksClient.createConnection({
+      proxy: {
+        host: proxy.hostname,
+        port: parseInt(proxy.port || '1080', 10),
+        type: proxy.protocol === 'socks4:' ? 4 : 5,
+        userId: proxy.username ? decodeURIComponent(proxy.username) : undefined,
+        password: proxy.password ? decodeURIComponent(proxy.password) : undefined
+      },
+      command: 'connect',
+      destination: { host, port }
+    });
+    return socket;
+  };
+}
+
+/**
+ * Tunnels through an HTTP proxy with CONNECT. Used for plain-http targets
+ * too, which intercepting proxies (Caido, Burp, mitmproxy) all accept.
+ */
+export function httpConnectTunnel(proxyUrl: string, timeoutMs: number = 15000): TunnelFactory {
+  const proxy = new URL(proxyUrl);
+  const authorization = proxy.username
+    ? 'Basic ' + Buffer.from(decodeURIComponent(proxy.username) + ':' + decodeURIComponent(proxy.password)).toString('base64')
+    : undefined;
+
+  return (host, port) => new Promise((resolve, reject) => {
+    const authority = (net.isIPv6(host) ? '[' + host + ']' : host) + ':' + port;
+    const connect = (proxy.protocol === 'https:' ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: authority,
+      headers: { 'Host': authority, ...(authorization ? { 'Proxy-Authorization': authorization } : {}) },
+      timeout: timeoutMs,
+      agent: false
+    });
+
+    connect.once('connect', (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+        return;
+      }
+      socket.destroy();
+      reject(new Error('Proxy CONNECT to ' + authority + ' failed: ' + res.statusCode + ' ' + (res.statusMessage || '')));
+    });
+    connect.once('timeout', () => connect.destroy(new Error('Proxy CONNECT to ' + authority + ' timed out')));
+    connect.once('error', reject);
+    connect.end();
+  });
+}
+
+async function openTunnelSocket(tunnel: TunnelFactory, secure: boolean, options: http.ClientRequestArgs): Promise<Duplex> {
+  const host = options.hostname || options.host || 'localhost';
+  const raw = await tunnel(host, Number(options.port) || (secure ? 443 : 80));
+  if (!secure) return raw;
+
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      socket: raw,
+      servername: net.isIP(host) ? undefined : host,
+      ALPNProtocols: ['http/1.1'],
+      rejectUnauthorized: false
+    }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/** Keep-alive agents whose sockets are opened through a TunnelFactory. */
+class TunnelHttpAgent extends http.Agent {
+  private tunnel: TunnelFactory;
+
+  constructor(tunnel: TunnelFactory, options: http.AgentOptions) {
+    super(options);
+    this.tunnel = tunnel;
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback?: (err: Error | null, stream: Duplex) => void): undefined {
+    // The agent accepts the socket asynchronously through the callback
+    openTunnelSocket(this.tunnel, false, options).then(socket => callback?.(null, socket), err => callback?.(err, undefined!));
+    return undefined;
+  }
+}
+
+class TunnelHttpsAgent extends https.Agent {
+  private tunnel: TunnelFactory;
+
+  constructor(tunnel: TunnelFactory, options: https.AgentOptions) {
+    super(options);
+    this.tunnel = tunnel;
+  }
+
+  createConnection(options: https.RequestOptions, callback?: (err: Error | null, stream: Duplex) => void): undefined {
+    openTunnelSocket(this.tunnel, true, options).then(socket => callback?.(null, socket), err => callback?.(err, undefined!));
+    return undefined;
+  }
+}
+
+/**
+ * Collects response chunks up to a byte ceiling. Returns false once the
+ * limit is crossed so the caller can abort the download.
+ */
+class BodyCollector {
+  private chunks: Buffer[] = [];
+  private received = 0;
+  private maxBytes: number;
+  truncated = false;
+
+  constructor(maxBytes: number = Infinity) {
+    this.maxBytes = maxBytes;
+  }
+
+  exceeds(declaredLength?: string | number): boolean {
+    const length = Number(declaredLength);
+    this.truncated = !isNaN(length) && length > this.maxBytes;
+    return this.truncated;
+  }
+
+  push(chunk: Buffer): boolean {
+    const room = this.maxBytes - this.received;
+    if (chunk.length > room) {
+      this.chunks.push(chunk.subarray(0, Math.max(room, 0)));
+      this.received = this.maxBytes;
+      this.truncated = true;
+      return false;
+    }
+    this.chunks.push(chunk);
+    this.received += chunk.length;
+    return true;
+  }
+
+  get body(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+function defaultPort(url: URL): number {
+  if (url.port) return parseInt(url.port, 10);
+  return url.protocol === 'https:' ? 443 : 80;
+}
+
+/**
+ * Scheme-aware HTTP client. Picks http/https from the URL, keeps
+ * connections alive per origin, and speaks HTTP/2 over TLS when asked to
+ * (falling back to HTTP/1.1 for origins that do not negotiate h2 via ALPN).
+ */
+export class Transport {
+  private httpVersion: HttpVersion;
+  private tunnel?: TunnelFactory;
+  private httpAgent: http.Agent;
+  private httpsAgent: http.Agent;
+  private h2Sessions: Map<string, Promise<http2.ClientHttp2Session>> = new Map();
+  private h1Only: Set<string> = new Set();
+
+  constructor(options: TransportOptions = {}) {
+    // A proxy agent without a matching tunnel could only carry HTTP/1.1;
+    // opening h2 sessions directly would bypass the proxy
+    this.httpVersion = options.agent && !options.tunnel ? '1.1' : parseHttpVersion(options.httpVersion);
+    this.tunnel = options.tunnel;
+    const maxSockets = options.maxSockets ?? 6;
+    if (options.agent) {
+      this.httpAgent = options.agent;
+      this.httpsAgent = options.agent;
+    } else if (options.tunnel) {
+      this.httpAgent = new TunnelHttpAgent(options.tunnel, { keepAlive: true, maxSockets });
+      this.httpsAgent = new TunnelHttpsAgent(options.tunnel, { keepAlive: true, maxSockets });
+    } else {
+      this.httpAgent = new http.Agent({ keepAlive: true, maxSockets });
+      this.httpsAgent = new https.Agent({ keepAlive: true, maxSockets, rejectUnauthorized: false });
+    }
+  }
+
+  get version(): HttpVersion {
+    return this.httpVersion;
+  }
+
+  async request(req: TransportRequest): Promise<TransportResponse> {
+    const useH2 = this.httpVersion === '2' &&
+      req.url.protocol === 'https:' &&
+      !this.h1Only.has(req.url.origin);
+
+    if (useH2) {
+      const session = await this.getH2Session(req.url).catch(() => null);
+      if (session) return this.requestH2(session, req);
+    }
+    return this.requestH1(req);
+  }
+
+  private requestH1(req: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const secure = req.url.protocol === 'https:';
+      const client = secure ? https : http;
+
+      const outgoing = client.request({
+        hostname: req.url.hostname,
+        port: defaultPort(req.url),
+        path: req.url.pathname + req.url.search,
+        method: req.method,
+        agent: secure ? this.httpsAgent : this.httpAgent,
+        headers: req.headers,
+        timeout: req.timeoutMs
+      }, (res) => {
+        const collector = new BodyCollector(req.maxBodyBytes);
+        const finish = () => resolve({
+          statusCode: res.statusCode || 0,
+          headers: res.headers,
+          body: collector.body,
+          httpVersion: res.httpVersion,
+          truncated: collector.truncated
+        });
+
+        if (collector.exceeds(res.headers['content-length'])) {
+          res.destroy();
+          finish();
+          return;
+        }
+
+        res.on('data', chunk => {
+          if (!collector.push(chunk)) {
+            res.destroy();
+            finish();
+          }
+        });
+        res.on('end', finish);
+        res.on('error', reject);
+      });
+
+      outgoing.on('error', reject);
+      outgoing.on('timeout', () => outgoing.destroy(new Error('Timeout')));
+
+      if (req.body) outgoing.write(req.body);
+      outgoing.end();
+    });
+  }
+
+  private getH2Session(url: URL): Promise<http2.ClientHttp2Session> {
+    const existing = this.h2Sessions.get(url.origin);
+    if (existing) return existing;
+
+    const pending = this.connectH2(url);
+    this.h2Sessions.set(url.origin, pending);
+    pending.catch(() => this.h2Sessions.delete(url.origin));
+    return pending;
+  }
+
+  private async connectH2(url: URL): Promise<http2.ClientHttp2Session> {
+    const port = defaultPort(url);
+    const raw = this.tunnel ? await this.tunnel(url.hostname, port) : undefined;
+
+    const socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({
+        host: url.hostname,
+        port,
+        socket: raw,
+        servername: net.isIP(url.hostname) ? undefined : url.hostname,
+        ALPNProtocols: ['h2', 'http/1.1'],
+        rejectUnauthorized: false
+      }, () => resolve(secure));
+      secure.once('error', reject);
+    });
+
+    if (socket.alpnProtocol !== 'h2') {
+      socket.destroy();
+      this.h1Only.add(url.origin);
+      throw new Error('ALPN did not negotiate h2');
+    }
+
+    const session = http2.connect(url.origin, { createConnection: () => socket });
+    const forget = () => this.h2Sessions.delete(url.origin);
+    session.on('close', forget);
+    session.on('goaway', forget);
+    session.on('error', forget);
+    return session;
+  }
+
+  private requestH2(session: http2.ClientHttp2Session, req: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const headers: http2.OutgoingHttpHeaders = {
+        ':method': req.method,
+        ':path': req.url.pathname + req.url.search,
+        ':scheme': 'https',
+        ':authority': req.url.host
+      };
+      for (const [name, value] of Object.entries(req.headers)) {
+        const lower = name.toLowerCase();
+        if (H2_FORBIDDEN_HEADERS.includes(lower)) continue;
+        headers[lower] = value;
+      }
+
+      const stream = session.request(headers, { endStream: !req.body });
+      const collector = new BodyCollector(req.maxBodyBytes);
+      let responseHeaders: http2.IncomingHttpHeaders & http2.IncomingHttpStatusHeader = {};
+      let timedOut = false;
+
+      stream.setTimeout(req.timeoutMs, () => {
+        timedOut = true;
+        stream.close(http2.constants.NGHTTP2_CANCEL);
+      });
+      stream.on('response', h => {
+        responseHeaders = h;
+        if (collector.exceeds(h['content-length'])) stream.close(http2.constants.NGHTTP2_CANCEL);
+      });
+      stream.on('data', chunk => {
+        if (!collector.push(chunk)) stream.close(http2.constants.NGHTTP2_CANCEL);
+      });
+      stream.on('error', reject);
+      stream.on('close', () => {
+        if (timedOut) {
+          reject(new Error('Timeout'));
+          return;
+        }
+        if (responseHeaders[':status'] === undefined) {
+          reject(new Error('HTTP/2 stream closed without response'));
+          return;
+        }
+
+        const plain: http.IncomingHttpHeaders = {};
+        for (const [name, value] of Object.entries(responseHeaders)) {
+          if (!name.startsWith(':')) plain[name] = value as string | string[];
+        }
+        resolve({
+          statusCode: Number(responseHeaders[':status']),
+          headers: plain,
+          body: collector.body,
+          httpVersion: '2.0',
+          truncated: collector.truncated
+        });
+      });
+
+      if (req.body) stream.end(req.body);
+    });
+  }
+
+  close(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+    for (const pending of this.h2Sessions.values()) {
+      pending.then(session => session.close()).catch(() => {});
+    }
+    this.h2Sessions.clear();
+  }
+}
@@ -6,6 +6,17 @@ import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import { resolve } from 'path';
 import { authMiddleware, generateToken, generateApiKey, isFirstTime } from './auth.js';
+import { ScopeError, parseScope } from '../crawler/scope.js';
+import { AuthError, AuthStrategyConfig, isLoginStrategy, parseAuthStrategy, redactAuthStrategy, redactRequest, redactResponse, redactUrl } from '../crawler/auth.js';
+import { DISCOVERY_TYPES, DiscoveryType, saveDiscoveries } from '../crawler/extract.js';
+import { SpecError, parseApiSpec, specDiscoveries } from '../crawler/apispec.js';
+import { PARAMETER_LOCATIONS, ParameterLocation } from '../crawler/params.js';
+import { SITEMAP_EXCLUDED_STATUSES, SITEMAP_FORMATS, SiteMapFormat, SiteObservation, buildSiteMap, requiresAuth, siteMapCsv, siteMapUrls } from '../crawler/sitemap.js';
+import { FINDING_SEVERITIES, FINDING_STATUSES, FindingError, findingFingerprint, parseFindingUpdate, parseManualFinding, reportFindings } from '../crawler/findings.js';
+import { scanResponse, sensitiveFindings } from '../crawler/sensitive.js';
+import { TechnologyProfile, assessTechnologies, detectTechnologies, parseTechnologies } from '../crawler/fingerprint.js';
+import { parseLearnedRateLimit } from '../crawler/ratemodel.js';
+import { CrawlWorker } from './jobs.js';
 
 // Load env
 dotenv.config({ path: resolve(process.cwd(), '.env') });
@@ -31,7 +42,9 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
-app.use(express.json());
+// /import-spec parses its own (larger) body, after authentication
+const jsonParser = express.json();
+app.use((req, res, next) => /^\/api\/targets\/[^/]+\/import-spec$/.test(req.path) ? next() : jsonParser(req, res, next));
 
 // Auth middleware
 app.use(authMiddleware);
@@ -187,46 +200,516 @@ app.get('/api/targets/:id', async (req, res) => {
 
 app.patch('/api/targets/:id', async (req, res) => {
   try {
-    const { status, greenLightStatus, trustScore } = req.body;
+    const { status, greenLightStatus, trustScore, ignoreRobots } = req.body;
     const updateData: any = {};
     if (status) updateData.status = status;
     if (greenLightStatus) updateData.greenLightStatus = greenLightStatus;
     if (trustScore !== undefined) updateData.trustScore = trustScore;
+    if (ignoreRobots !== undefined) updateData.ignoreRobots = Boolean(ignoreRobots);
     
     const target = await prisma.target.update({
       where: { id: req.params.id },
       data: updateData
     });
+
+    if (ignoreRobots !== undefined) {
+      await prisma.learningEvent.create({
+        data: {
+          targetId: target.id,
+          dnaVersionId: '00000000-0000-0000-0000-000000000000',
+          eventType: 'robots',
+          title: target.ignoreRobots ? 'robots.txt override enabled' : 'robots.txt override disabled',
+          description: target.ignoreRobots
+            ? 'Disallow rules and Crawl-delay will be ignored for this target'
+            : 'Disallow rules and Crawl-delay will be honored for this target',
+          trustImpact: 0,
+          mcpModel: process.env.CLAUDE_MODEL || 'claude-4-5-sonnet'
+        }
+      });
+    }
     res.json(target);
   } catch (error) {
     res.status(500).json({ error: String(error) });
   }
 });
 
+// Target Scope
+app.get('/api/targets/:id/scope', async (req, res) => {
+  try {
+    const target = await prisma.target.findUnique({
+      where: { id: req.params.id },
+      select: { url: true, scope: true, outOfScopeBlocked: true }
+    });
+    if (!target) return res.status(404).json({ error: 'Not found' });
+    res.json({
+      scope: target.scope ? JSON.parse(target.scope) : null,
+      default: !target.scope,
+      defaultHost: new URL(target.url).hostname,
+      outOfScopeBlocked: target.outOfScopeBlocked
+    });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.put('/api/targets/:id/scope', async (req, res) => {
+  try {
+    const { scope } = req.body;
+    const definition = scope ? parseScope(scope) : null;
+    
+    const target = await prisma.target.update({
+      where: { id: req.params.id },
+      data: { scope: definition ? JSON.stringify(definition) : null }
+    });
+    res.json({ scope: definition, default: !definition, outOfScopeBlocked: target.outOfScopeBlocked });
+  } catch (error) {
+    if (error instanceof ScopeError || error instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid scope: ' + error.message });
+    }
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+// Request Logs (redirect hops are nested under the request that started the chain)
+app.get('/api/targets/:id/requests', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const [target, requests] = await Promise.all([
+      prisma.target.findUnique({ where: { id: req.params.id }, select: { authStrategy: true } }),
+      prisma.requestLog.findMany({
+        where: { targetId: req.params.id, parentRequestId: null },
+        include: { redirects: { orderBy: { redirectHop: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      })
+    ]);
+
+    // Logs are redacted when written; this also covers rows stored before that
+    let strategy: AuthStrategyConfig | null = null;
+    try {
+      strategy = target?.authStrategy ? parseAuthStrategy(target.authStrategy) : null;
+    } catch {
+      // Invalid strategy: the fixed credential headers are still masked
+    }
+    const parseHeaders = (value: string | null): Record<string, unknown> => {
+      try {
+        return value ? JSON.parse(value) : {};
+      } catch {
+        return {};
+      }
+    };
+    const redact = <T extends { url: string; headers: string; body: string | null; responseHeaders: string | null; responseBodyPreview: string | null }>(log: T): T => {
+      const request = redactRequest(parseHeaders(log.headers), log.body ?? undefined, strategy);
+      const response = redactResponse(parseHeaders(log.responseHeaders), log.responseBodyPreview ?? undefined, strategy);
+      return {
+        ...log,
+        url: redactUrl(log.url, strategy),
+        headers: JSON.stringify(request.headers),
+        body: request.body ?? null,
+        responseHeaders: log.responseHeaders === null ? null : JSON.stringify(response.headers),
+        responseBodyPreview: response.body ?? null
+      };
+    };
+    res.json(requests.map(log => ({ ...redact(log), redirects: log.redirects.map(redact) })));
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.get('/api/targets/:id/discoveries', async (req, res) => {
+  try {
+    const types = req.query.type ? String(req.query.type).split(',') : undefined;
+    const unknown = types?.filter(t => !DISCOVERY_TYPES.includes(t as DiscoveryType));
+    if (unknown?.length) {
+      return res.status(400).json({ error: 'Unknown discovery type: ' + unknown.join(', ') + ' (expected ' + DISCOVERY_TYPES.join(', ') + ')' });
+    }
+
+    const where = {
+      targetId: req.params.id,
+      type: types ? { in: types } : undefined,
+      value: req.query.q ? { contains: String(req.query.q) } : undefined,
+      pageUrl: req.query.pageUrl ? String(req.query.pageUrl) : undefined,
+      requestLogId: req.query.requestLogId ? String(req.query.requestLogId) : undefined
+    };
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const [total, discoveries, counts] = await Promise.all([
+      prisma.discovery.count({ where }),
+      prisma.discovery.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      prisma.discovery.groupBy({ by: ['type'], where: { targetId: req.params.id }, _count: true })
+    ]);
+    res.json({
+      total,
+      counts: Object.fromEntries(counts.map(c => [c.type, c._count])),
+      discoveries: discoveries.map(d => ({ ...d, details: d.details ? JSON.parse(d.details) : null }))
+    });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.get('/api/targets/:id/parameters', async (req, res) => {
+  try {
+    const location = req.query.location as string | undefined;
+    if (location && !PARAMETER_LOCATIONS.includes(location as ParameterLocation)) {
+      return res.status(400).json({ error: 'location must be one of ' + PARAMETER_LOCATIONS.join(', ') });
+    }
+
+    const parameters = await prisma.parameter.findMany({
+      where: {
+        targetId: req.params.id,
+        location,
+        inferredType: req.query.type ? String(req.query.type) : undefined,
+        name: req.query.q ? { contains: String(req.query.q) } : undefined
+      },
+      orderBy: [{ occurrences: 'desc' }, { name: 'asc' }]
+    });
+    res.json(parameters.map(p => ({
+      ...p,
+      examples: p.examples ? JSON.parse(p.examples) : [],
+      endpoints: p.endpoints ? JSON.parse(p.endpoints) : []
+    })));
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+// Site map: everything requested or queued, folded into host → path → resource.
+// ?format=csv or urls downloads a flat list of resources instead of the tree.
+const MAX_SITEMAP_REQUESTS = 50000;
+
+app.get('/api/targets/:id/sitemap', async (req, res) => {
+  try {
+    const format = (req.query.format as string | undefined) || 'json';
+    if (!SITEMAP_FORMATS.includes(format as SiteMapFormat)) {
+      return res.status(400).json({ error: 'format must be one of ' + SITEMAP_FORMATS.join(', ') });
+    }
+
+    const target = await prisma.target.findUnique({ where: { id: req.params.id } });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
+
+    const [logs, urls, parameters] = await Promise.all([
+      prisma.requestLog.findMany({
+        where: { targetId: target.id, probe: false },
+        select: { id: true, parentRequestId: true, method: true, url: true, responseStatus: true, responseHeaders: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_SITEMAP_REQUESTS
+      }),
+      prisma.discoveredUrl.findMany({
+        where: { targetId: target.id },
+        select: { url: true, status: true, responseStatus: true, contentType: true, discoveredAt: true, crawledAt: true }
+      }),
+      prisma.parameter.findMany({
+        where: { targetId: target.id },
+        select: { name: true, endpoints: true, firstSeen: true, lastSeen: true }
+      })
+    ]);
+
+    // Dead links are not resources either, whichever source saw them
+    const gone = (status: number | null) => status === 404 || status === 410;
+    const excluded = new Set(urls.filter(u => SITEMAP_EXCLUDED_STATUSES.includes(u.status) || gone(u.responseStatus)).map(u => u.url));
+    // Redirect hops belong to the chain's first request: a soft-404 that redirects to the not-found page drops both
+    const excludedChains = new Set(logs.filter(log => excluded.has(log.url)).map(log => log.id));
+    const observations: SiteObservation[] = [];
+
+    for (const log of logs) {
+      if (excluded.has(log.url) || gone(log.responseStatus)) continue;
+      if (log.parentRequestId && excludedChains.has(log.parentRequestId)) continue;
+      let headers: Record<string, string> = {};
+      try {
+        headers = log.responseHeaders ? JSON.parse(log.responseHeaders) : {};
+      } catch {
+        // Headers not stored as JSON
+      }
+      observations.push({
+        url: log.url,
+        method: log.method,
+        status: log.responseStatus ?? undefined,
+        contentType: headers['content-type'],
+        authRequired: requiresAuth(log.responseStatus ?? undefined, headers['location'], target.authEndpoint || undefined),
+        firstSeen: log.createdAt
+      });
+    }
+    for (const url of urls) {
+      if (excluded.has(url.url)) continue;
+      observations.push({
+        url: url.url,
+        status: url.responseStatus ?? undefined,
+        contentType: url.contentType ?? undefined,
+        authRequired: url.responseStatus === 401,
+        firstSeen: url.discoveredAt,
+        lastSeen: url.crawledAt ?? undefined
+      });
+    }
+    for (const parameter of parameters) {
+      let endpoints: string[] = [];
+      try {
+        endpoints = parameter.endpoints ? JSON.parse(parameter.endpoints) : [];
+      } catch {
+        // Endpoints not stored as JSON
+      }
+      for (const endpoint of endpoints) {
+        const [method, url] = endpoint.split(' ');
+        if (excluded.has(url)) continue;
+        observations.push({ url, method, parameters: [parameter.name], firstSeen: parameter.firstSeen, lastSeen: parameter.lastSeen });
+      }
+    }
+
+    const tree = buildSiteMap(observations);
+    if (format === 'json') {
+      return res.json({
+        truncated: logs.length === MAX_SITEMAP_REQUESTS,
+        hosts: tree.length,
+        resources: tree.reduce((sum, host) => sum + host.resources, 0),
+        tree
+      });
+    }
+
+    const filename = 'sitemap-' + new URL(target.url).hostname + (format === 'csv' ? '.csv' : '.txt');
+    res.setHeader('Content-Disposition', 'attachment; filename="' + filename + '"');
+    res.type(format === 'csv' ? 'text/csv' : 'text/plain');
+    res.send(format === 'csv' ? siteMapCsv(tree) : siteMapUrls(tree));
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+// Findings: every detector reports here; testers triage them
+function findingJson(finding: { evidence: string | null }) {
+  return { ...finding, evidence: finding.evidence ? JSON.parse(finding.evidence) : null };
+}
+
+function listFilter(value: unknown, allowed: string[], field: string): string[] | undefined {
+  if (!value) return undefined;
+  const list = String(value).split(',');
+  const unknown = list.filter(v => !allowed.includes(v));
+  if (unknown.length) throw new FindingError('Unknown ' + field + ': ' + unknown.join(', ') + ' (expected ' + allowed.join(', ') + ')');
+  return list;
+}
+
+app.get('/api/targets/:id/findings', async (req, res) => {
+  try {
+    const statuses = listFilter(req.query.status, FINDING_STATUSES, 'status');
+    const severities = listFilter(req.query.severity, FINDING_SEVERITIES, 'severity');
+    const where = {
+      targetId: req.params.id,
+      status: statuses ? { in: statuses } : undefined,
+      severity: severities ? { in: severities } : undefined,
+      detector: req.query.detector ? String(req.query.detector) : undefined,
+      cwe: req.query.cwe ? parseInt(req.query.cwe as string) : undefined,
+      title: req.query.q ? { contains: String(req.query.q) } : undefined
+    };
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const [total, findings, bySeverity, byStatus] = await Promise.all([
+      prisma.finding.count({ where }),
+      prisma.finding.findMany({ where, orderBy: { lastSeen: 'desc' }, take: limit, skip: offset }),
+      prisma.finding.groupBy({ by: ['severity'], where: { targetId: req.params.id }, _count: true }),
+      prisma.finding.groupBy({ by: ['status'], where: { targetId: req.params.id }, _count: true })
+    ]);
+    res.json({
+      total,
+      counts: {
+        severity: Object.fromEntries(bySeverity.map(c => [c.severity, c._count])),
+        status: Object.fromEntries(byStatus.map(c => [c.status, c._count]))
+      },
+      findings: findings.map(findingJson)
+    });
+  } catch (error) {
+    if (error instanceof FindingError) return res.status(400).json({ error: error.message });
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.post('/api/targets/:id/findings', async (req, res) => {
+  try {
+    const target = await prisma.target.findUnique({ where: { id: req.params.id } });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
+
+    const { notes, ...finding } = parseManualFinding(req.body);
+    const raised = await reportFindings(prisma, target.id, [finding]);
+    const stored = await prisma.finding.update({
+      where: { targetId_fingerprint: { targetId: target.id, fingerprint: findingFingerprint(finding.detector, finding.key) } },
+      data: { notes }
+    });
+    res.status(raised.length > 0 ? 201 : 200).json(findingJson(stored));
+  } catch (error) {
+    if (error instanceof FindingError) return res.status(400).json({ error: error.message });
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.get('/api/targets/:id/findings/:findingId', async (req, res) => {
+  try {
+    const finding = await prisma.finding.findFirst({
+      where: { id: req.params.findingId, targetId: req.params.id },
+      include: {
+        requestLogs: {
+          select: { id: true, method: true, url: true, responseStatus: true, createdAt: true },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+    if (!finding) return res.status(404).json({ error: 'Finding not found' });
+    res.json(findingJson(finding));
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.patch('/api/targets/:id/findings/:findingId', async (req, res) => {
+  try {
+    const update = parseFindingUpdate(req.body);
+    const existing = await prisma.finding.findFirst({ where: { id: req.params.findingId, targetId: req.params.id } });
+    if (!existing) return res.status(404).json({ error: 'Finding not found' });
+
+    const finding = await prisma.finding.update({ where: { id: existing.id }, data: update });
+    res.json(findingJson(finding));
+  } catch (error) {
+    if (error instanceof FindingError) return res.status(400).json({ error: error.message });
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.delete('/api/targets/:id/findings/:findingId', async (req, res) => {
+  try {
+    const { count } = await prisma.finding.deleteMany({ where: { id: req.params.findingId, targetId: req.params.id } });
+    if (count === 0) return res.status(404).json({ error: 'Finding not found' });
+    res.json({ deleted: true });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+// Rescan logged responses for sensitive data. Only the stored body preview
+// is available here; crawls scan full bodies as they arrive. Snippets are
+// redacted unless the body says { redact: false }; findings always are.
+app.post('/api/targets/:id/scan-sensitive', async (req, res) => {
+  try {
+    const target = await prisma.target.findUnique({ where: { id: req.params.id } });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
+
+    const redact = req.body?.redact !== false;
+    const logs = await prisma.requestLog.findMany({
+      where: { targetId: target.id, responseStatus: { not: null } },
+      select: { id: true, url: true, responseHeaders: true, responseBodyPreview: true },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(req.body?.limit) || 1000, 10000)
+    });
+
+    const hits = [];
+    const findings = [];
+    for (const log of logs) {
+      let headers: Record<string, unknown> = {};
+      try {
+        headers = log.responseHeaders ? JSON.parse(log.responseHeaders) : {};
+      } catch {
+        // Headers not stored as JSON
+      }
+      const body = log.responseBodyPreview || undefined;
+      const found = scanResponse(log.url, headers, body);
+      findings.push(...sensitiveFindings(found, log.id));
+      const shown = redact ? found : scanResponse(log.url, headers, body, { redact: false });
+      hits.push(...shown.map(hit => ({ ...hit, requestLogId: log.id })));
+    }
+
+    const raised = await reportFindings(prisma, target.id, findings);
+    res.json({ scanned: logs.length, raised: raised.length, hits });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+// Upload an OpenAPI/Swagger document (JSON or YAML), GraphQL introspection
+// result or GraphQL SDL. Send JSON { spec, url?, source? } or the raw
+// document as text, up to 10 MB either way; url is where the spec lives,
+// or the GraphQL endpoint.
+app.post('/api/targets/:id/import-spec', express.json({ limit: '10mb' }), express.text({ type: ['text/*', 'application/yaml', 'application/x-yaml', 'application/graphql'], limit: '10mb' }), async (req, res) => {
+  try {
+    const target = await prisma.target.findUnique({ where: { id: req.params.id } });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
+
+    const isText = typeof req.body === 'string';
+    const raw = isText ? req.body : req.body?.spec;
+    const options = (isText ? req.query : req.body) as { url?: string; source?: string };
+    const url = options.url;
+    if (!raw) return res.status(400).json({ error: 'spec required' });
+
+    let spec = parseApiSpec(raw, url || target.url);
+    if (spec.format === 'graphql' && !url) {
+      spec = parseApiSpec(raw, new URL('/graphql', target.url).toString());
+    }
+
+    const source = options.source || 'import:' + (spec.title || spec.format) + (spec.version ? '@' + spec.version : '');
+    const saved = await saveDiscoveries(prisma, target.id, specDiscoveries(spec, source), source);
+
+    await prisma.learningEvent.create({
+      data: {
+        targetId: target.id,
+        dnaVersionId: '00000000-0000-0000-0000-000000000000',
+        eventType: 'discovery',
+        title: 'API specification imported',
+        description: spec.format + ' ' + (spec.title || source) + ': ' + spec.operations.length + ' operations',
+        trustImpact: 0,
+        mcpModel: process.env.CLAUDE_MODEL || 'claude-4-5-sonnet'
+      }
+    });
+
+    res.json({
+      source,
+      format: spec.format,
+      title: spec.title,
+      version: spec.version,
+      operations: spec.operations.length,
+      imported: saved.filter(d => d.type === 'operation').length
+    });
+  } catch (error) {
+    if (error instanceof SpecError) return res.status(400).json({ error: error.message });
+    res.status(500).json({ error: String(error) });
+  }
+});
+
 // MCP Analysis
 app.post('/api/mcp/analyze/:targetId', async (req, res) => {
   try {
     const target = await prisma.target.findUnique({ where: { id: req.params.targetId } });
     if (!target) return res.status(404).json({ error: 'Target not found' });
-    
+
+    // Logged responses are matched again so signatures added since the crawl apply too
+    const profile = new TechnologyProfile(parseTechnologies(target.technologies));
+    const responses = await prisma.requestLog.findMany({
+      where: { targetId: target.id, responseHeaders: { not: null } },
+      select: { responseHeaders: true, responseBodyPreview: true },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+    for (const response of responses) {
+      try {
+        profile.observe(detectTechnologies({ headers: JSON.parse(response.responseHeaders!), body: response.responseBodyPreview || undefined }));
+      } catch {
+        // Headers not stored as JSON
+      }
+    }
+    const technologies = profile.list();
+    if (profile.dirty()) {
+      await prisma.target.update({ where: { id: target.id }, data: { technologies: JSON.stringify(technologies) } });
+    }
+
+    const rateLimit = parseLearnedRateLimit(target.learnedRateLimit);
+    const delayMin = rateLimit ? Math.max(1000, Math.round(1000 / rateLimit.requestsPerSecond)) : 1000;
     const analysis = {
       target: target.url,
-      cdn: 'Azion',
-      securityLevel: 'medium',
-      recommendations: [
-        'Use Brazilian Portuguese locale',
-        'Add realistic referrer headers',
-        'Implement request delays of 1-3 seconds'
-      ],
+      ...assessTechnologies(technologies),
+      technologies,
       suggestedDNA: {
         userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
         headers: {
-          'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.8',
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
         },
-        timing: { delayMin: 1000, delayMax: 3000 }
+        timing: { delayMin, delayMax: delayMin * 3 }
       },
-      mock: !process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY?.includes('test'),
       model: process.env.CLAUDE_MODEL
     };
     res.json(analysis);
@@ -236,21 +719,26 @@ app.post('/api/mcp/analyze/:targetId', async (req, res) => {
 });
 
 // Crawl
-const activeCrawls = new Map();
+const crawlWorker = new CrawlWorker(prisma);
 
 app.post('/api/crawl/:targetId', async (req, res) => {
   try {
     const { targetId } = req.params;
-    const { url } = req.body;
+    const { maxIterations, maxDepth } = req.body;
     
-    if (activeCrawls.has(targetId)) {
-      return res.json({ status: 'already_running', message: 'Crawl already active' });
+    const existing = await crawlWorker.activeJob(targetId);
+    if (existing?.status === 'paused' && await crawlWorker.resume(existing.id)) {
+      return res.json({ status: 'resumed', targetId, jobId: existing.id });
+    }
+    if (existing) {
+      return res.json({ status: 'already_running', message: 'Crawl already active', jobId: existing.id });
     }
     
-    await prisma.target.update({
+    const target = await prisma.target.findUnique({
       where: { id: targetId },
-      data: { status: 'learning', greenLightStatus: 'YELLOW' }
+      select: { url: true }
     });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
     
     await prisma.learningEvent.create({
       data: {
@@ -264,42 +752,101 @@ app.post('/api/crawl/:targetId', async (req, res) => {
       }
     });
     
-    activeCrawls.set(targetId, { startTime: new Date(), url, iterations: 0 });
+    const job = await crawlWorker.enqueue(targetId, {
+      maxIterations: maxIterations ? parseInt(maxIterations) : undefined,
+      maxDepth: maxDepth !== undefined ? parseInt(maxDepth) : undefined
+    });
     
-    setTimeout(async () => {
-      await prisma.learningEvent.create({
-        data: {
-          targetId,
-          dnaVersionId: '00000000-0000-0000-0000-000000000000',
-          eventType: 'milestone',
-          title: 'Security assessment complete',
-          description: 'Identified CDN and security headers',
-          trustImpact: 10,
-          mcpModel: process.env.CLAUDE_MODEL || 'claude-4-5-sonnet'
-        }
-      });
-      await prisma.target.update({
-        where: { id: targetId },
-        data: { trustScore: { increment: 10 }, lastSeen: new Date() }
-      });
-      setTimeout(() => activeCrawls.delete(targetId), 60000);
-    }, 5000);
+    res.json({ status: 'started', targetId, url: target.url, jobId: job.id });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.post('/api/crawl/:targetId/stop', async (req, res) => {
+  try {
+    const job = await crawlWorker.activeJob(req.params.targetId);
+    if (!job || !await crawlWorker.cancel(job.id)) {
+      return res.status(404).json({ error: 'No active crawl' });
+    }
+    res.json({ status: 'stopping', targetId: req.params.targetId, jobId: job.id });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.post('/api/crawl/:targetId/pause', async (req, res) => {
+  try {
+    const job = await crawlWorker.activeJob(req.params.targetId);
+    if (!job || !await crawlWorker.pause(job.id)) {
+      return res.status(404).json({ error: 'No running crawl' });
+    }
+    res.json({ status: 'pausing', targetId: req.params.targetId, jobId: job.id });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.post('/api/crawl/:targetId/resume', async (req, res) => {
+  try {
+    const job = await crawlWorker.activeJob(req.params.targetId);
+    if (!job || !await crawlWorker.resume(job.id)) {
+      return res.status(404).json({ error: 'No paused crawl' });
+    }
+    res.json({ status: 'queued', targetId: req.params.targetId, jobId: job.id });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
+app.get('/api/crawl/:targetId/status', async (req, res) => {
+  try {
+    const job = await prisma.crawlJob.findFirst({
+      where: { targetId: req.params.targetId },
+      orderBy: { createdAt: 'desc' }
+    });
+    if (!job) return res.json({ active: false });
     
-    res.json({ status: 'started', targetId, url });
+    // Live counters for a running crawl, checkpointed ones otherwise
+    const live = crawlWorker.live(job.id)?.getStatus();
+    const startTime = job.startedAt || job.createdAt;
+    res.json({
+      active: job.status === 'queued' || job.status === 'running',
+      jobId: job.id,
+      state: job.status,
+      startTime,
+      endTime: job.finishedAt,
+      duration: (job.finishedAt || new Date()).getTime() - startTime.getTime(),
+      iterations: live?.iteration ?? job.iterations,
+      maxIterations: live?.maxIterations ?? (job.options ? JSON.parse(job.options).maxIterations : undefined) ?? 50,
+      requestsSent: live?.requestsSent ?? job.requestsSent,
+      errors: live?.errors ?? job.errors,
+      currentUrl: live?.currentUrl ?? job.currentUrl,
+      queued: live?.queued,
+      discovered: live?.discovered,
+      authenticated: live?.authenticated,
+      lastError: job.error || live?.lastError
+    });
   } catch (error) {
     res.status(500).json({ error: String(error) });
   }
 });
 
-app.get('/api/crawl/:targetId/status', (req, res) => {
-  const crawl = activeCrawls.get(req.params.targetId);
-  if (!crawl) return res.json({ active: false });
-  res.json({
-    active: true,
-    startTime: crawl.startTime,
-    duration: Date.now() - crawl.startTime.getTime(),
-    iterations: crawl.iterations
-  });
+app.get('/api/targets/:id/jobs', async (req, res) => {
+  try {
+    const jobs = await prisma.crawlJob.findMany({
+      where: { targetId: req.params.id },
+      select: {
+        id: true, status: true, options: true, iterations: true, requestsSent: true, errors: true,
+        currentUrl: true, error: true, createdAt: true, startedAt: true, finishedAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+    res.json(jobs.map(job => ({ ...job, options: job.options ? JSON.parse(job.options) : null })));
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
 });
 
 // MCP Logs
@@ -308,7 +855,7 @@ app.get('/api/mcp/logs/:targetId', async (req, res) => {
     const logs = await prisma.learningEvent.findMany({
       where: { 
         targetId: req.params.targetId,
-        eventType: { in: ['milestone', 'green_light', 'challenge'] }
+        eventType: { in: ['milestone', 'green_light', 'challenge', 'robots', 'session'] }
       },
       orderBy: { createdAt: 'desc' },
       take: 50
@@ -320,10 +867,28 @@ app.get('/api/mcp/logs/:targetId', async (req, res) => {
 });
 
 // Target Auth
+app.get('/api/auth/:targetId', async (req, res) => {
+  try {
+    const target = await prisma.target.findUnique({
+      where: { id: req.params.targetId },
+      select: { authStrategy: true, isAuthenticated: true, authEndpoint: true, authUsername: true }
+    });
+    if (!target) return res.status(404).json({ error: 'Target not found' });
+    res.json({
+      strategy: target.authStrategy ? redactAuthStrategy(parseAuthStrategy(target.authStrategy)) : null,
+      isAuthenticated: target.isAuthenticated,
+      authEndpoint: target.authEndpoint,
+      authUsername: target.authUsername
+    });
+  } catch (error) {
+    res.status(500).json({ error: String(error) });
+  }
+});
+
 app.post('/api/auth/:targetId', async (req, res) => {
   try {
-    const { username, password, endpoint } = req.body;
     const targetId = req.params.targetId;
+    const strategy = parseAuthStrategy(req.body);
     
     const target = await prisma.target.findUnique({
       where: { id: targetId },
@@ -331,11 +896,36 @@ app.post('/api/auth/:targetId', async (req, res) => {
     });
     
     if (!target) return res.status(404).json({ error: 'Target not found' });
-    if (target.greenLightStatus !== 'GREEN') return res.status(400).json({ error: 'Target must have GREEN light' });
-    if (target.isAuthenticated) return res.status(400).json({ error: 'Target already authenticated' });
+    // Submitting credentials to a login form is only safe once trust is established
+    if (isLoginStrategy(strategy) && target.greenLightStatus !== 'GREEN') return res.status(400).json({ error: 'Target must have GREEN light' });
+    
+    await prisma.target.update({
+      where: { id: targetId },
+      data: {
+        authStrategy: JSON.stringify(strategy),
+        authUsername: 'username' in strategy ? strategy.username : null,
+        authEndpoint: isLoginStrategy(strategy) ? strategy.endpoint || null : null,
+        isAuthenticated: false
+      }
+    });
+    
+    await prisma.learningEvent.create({
+      data: {
+        targetId,
+        dnaVersionId: '00000000-0000-0000-0000-000000000000',
+        eventType: 'milestone',
+        title: 'Auth strategy configured',
+        description: 'Crawlers will authenticate using the ' + strategy.type + ' strategy',
+        trustImpact: 0,
+        mcpModel: process.env.CLAUDE_MODEL || 'claude-4-5-sonnet'
+      }
+    });
     
-    res.json({ status: 'started', targetId, username });
+    res.json({ status: 'configured', targetId, strategy: redactAuthStrategy(strategy) });
   } catch (error) {
+    if (error instanceof AuthError || error instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid auth strategy: ' + error.message });
+    }
     res.status(500).json({ error: String(error) });
   }
 });
@@ -538,15 +1128,18 @@ app.get('/api/test/caido', async (req, res) => {
 const PORT = parseInt(process.env.PORT || '4000');
 httpServer.listen(PORT, () => {
   console.log(`Backend running on port ${PORT}`);
+  crawlWorker.start().catch((error) => console.error('Crawl worker failed to start:', error));
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
+  crawlWorker.stop();
   await prisma.$disconnect();
   httpServer.close(() => process.exit(0));
 });
 
 process.on('SIGINT', async () => {
+  crawlWorker.stop();
   await prisma.$disconnect();
   httpServer.close(() => process.exit(0));
 });
@@ -0,0 +1,212 @@
+import { PrismaClient } from '@prisma/client';
+import { AutonomousCrawler, CrawlCheckpoint } from '../crawler/autonomous.js';
+
+export type CrawlJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface CrawlJobOptions {
+  maxIterations?: number;
+  maxDepth?: number;
+}
+
+interface RunningJob {
+  crawler: AutonomousCrawler;
+  targetId: string;
+  // What stop() was called for; a crawl that ends on its own is "completed"
+  stopAs?: 'paused' | 'cancelled';
+}
+
+const ACTIVE_STATUSES: CrawlJobStatus[] = ['queued', 'running', 'paused'];
+const MAX_CONCURRENT_JOBS = 3;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Runs CrawlJob rows. Jobs are picked up oldest-first, checkpointed after
+ * every iteration, and survive a server restart: on boot, running jobs with
+ * a checkpoint are re-queued and the rest are marked failed.
+ */
+export class CrawlWorker {
+  private prisma: PrismaClient;
+  private running: Map<string, RunningJob> = new Map();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async start(): Promise<void> {
+    await this.recover();
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    await this.tick();
+  }
+
+  /** Stops picking up jobs. Running crawls are left as "running" so the next boot resumes them. */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private async recover(): Promise<void> {
+    const orphaned = await this.prisma.crawlJob.findMany({ where: { status: 'running' } });
+    for (const job of orphaned) {
+      if (job.checkpoint) {
+        await this.prisma.crawlJob.update({ where: { id: job.id }, data: { status: 'queued' } });
+        console.log('Resuming crawl job ' + job.id + ' from iteration ' + job.iterations);
+      } else {
+        await this.prisma.crawlJob.update({
+          where: { id: job.id },
+          data: { status: 'failed', error: 'Interrupted by server restart before first checkpoint', finishedAt: new Date() }
+        });
+        await this.releaseTarget(job.targetId);
+      }
+    }
+  }
+
+  /** A target is "learning" only while a crawl runs on it. */
+  private async releaseTarget(targetId: string): Promise<void> {
+    await this.prisma.target.updateMany({
+      where: { id: targetId, status: 'learning' },
+      data: { status: 'discovering' }
+    });
+  }
+
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      while (this.running.size < MAX_CONCURRENT_JOBS) {
+        const next = await this.prisma.crawlJob.findFirst({
+          where: { status: 'queued', targetId: { notIn: [...this.running.values()].map(j => j.targetId) } },
+          orderBy: { createdAt: 'asc' }
+        });
+        if (!next) break;
+        await this.run(next.id);
+      }
+    } catch (e) {
+      console.error('Crawl worker tick failed:', e);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = await this.prisma.crawlJob.update({
+      where: { id: jobId },
+      data: { status: 'running', startedAt: new Date(), error: null },
+      include: { target: { select: { url: true } } }
+    });
+
+    // A job that cannot even start must not stay "running": that would block the target until restart
+    let crawler: AutonomousCrawler;
+    try {
+      const options: CrawlJobOptions = job.options ? JSON.parse(job.options) : {};
+      const checkpoint: CrawlCheckpoint | undefined = job.checkpoint ? JSON.parse(job.checkpoint) : undefined;
+      crawler = new AutonomousCrawler({
+        targetId: job.targetId,
+        url: job.target.url,
+        maxIterations: options.maxIterations ?? 50,
+        maxDepth: options.maxDepth ?? 3,
+        checkpoint,
+        onCheckpoint: (state) => this.saveCheckpoint(jobId, state)
+      });
+    } catch (e) {
+      await this.prisma.crawlJob.update({
+        where: { id: jobId },
+        data: { status: 'failed', error: 'Could not start: ' + (e instanceof Error ? e.message : String(e)), finishedAt: new Date() }
+      });
+      await this.releaseTarget(job.targetId);
+      return;
+    }
+    const running: RunningJob = { crawler, targetId: job.targetId };
+    this.running.set(jobId, running);
+
+    crawler.start()
+      .then(() => this.finish(jobId, running.stopAs || 'completed', crawler))
+      .catch((e) => this.finish(jobId, 'failed', crawler, e instanceof Error ? e.message : String(e)))
+      .finally(() => {
+        this.running.delete(jobId);
+        this.tick();
+      });
+  }
+
+  private async saveCheckpoint(jobId: string, state: CrawlCheckpoint): Promise<void> {
+    await this.prisma.crawlJob.update({
+      where: { id: jobId },
+      data: {
+        checkpoint: JSON.stringify(state),
+        iterations: state.iteration,
+        requestsSent: state.requestsSent,
+        errors: state.errors,
+        currentUrl: state.currentUrl
+      }
+    });
+  }
+
+  private async finish(jobId: string, status: CrawlJobStatus, crawler: AutonomousCrawler, error?: string): Promise<void> {
+    try {
+      await this.saveCheckpoint(jobId, crawler.checkpoint());
+      const job = await this.prisma.crawlJob.update({
+        where: { id: jobId },
+        data: {
+          status,
+          error,
+          finishedAt: status === 'paused' ? null : new Date()
+        }
+      });
+      // A paused job resumes later and keeps the target
+      if (status !== 'paused') await this.releaseTarget(job.targetId);
+    } catch (e) {
+      console.error('Failed to finalize crawl job ' + jobId + ':', e);
+    }
+  }
+
+  async enqueue(targetId: string, options: CrawlJobOptions = {}) {
+    const job = await this.prisma.crawlJob.create({
+      data: { targetId, options: JSON.stringify(options) }
+    });
+    this.tick();
+    return job;
+  }
+
+  /** The queued, running or paused job for a target, if any. */
+  activeJob(targetId: string) {
+    return this.prisma.crawlJob.findFirst({
+      where: { targetId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  live(jobId: string): AutonomousCrawler | undefined {
+    return this.running.get(jobId)?.crawler;
+  }
+
+  async pause(jobId: string): Promise<boolean> {
+    const running = this.running.get(jobId);
+    if (!running) return false;
+    running.stopAs = 'paused';
+    running.crawler.stop();
+    return true;
+  }
+
+  async resume(jobId: string): Promise<boolean> {
+    const { count } = await this.prisma.crawlJob.updateMany({
+      where: { id: jobId, status: 'paused' },
+      data: { status: 'queued' }
+    });
+    if (count > 0) this.tick();
+    return count > 0;
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const running = this.running.get(jobId);
+    if (running) {
+      running.stopAs = 'cancelled';
+      running.crawler.stop();
+      return true;
+    }
+    const { count } = await this.prisma.crawlJob.updateMany({
+      where: { id: jobId, status: { in: ['queued', 'paused'] } },
+      data: { status: 'cancelled', finishedAt: new Date() }
+    });
+    return count > 0;
+  }
+}